@@ -18,6 +18,7 @@ import { initSandboxClient, type SandboxClient } from "../src/sandbox.js"
 import { initSessionStore } from "../src/session-store.js"
 import { SpritesClient } from "../src/sprites.js"
 import { DockerSandboxClient } from "../src/docker-sandbox.js"
+import { LocalSandboxClient } from "../src/local-sandbox.js"
 import { extractControlCommand, runControlCommand, runThreadTurn } from "../src/thread-runtime.js"
 
 const FAKE_USER_ID = "U_REPL_USER"
@@ -32,6 +33,10 @@ function createSandboxClient(): SandboxClient {
     return new DockerSandboxClient()
   }
 
+  if (config.sandboxBackend === "local") {
+    return new LocalSandboxClient()
+  }
+
   if (!config.spritesToken) {
     throw new Error("SPRITES_TOKEN is required when SANDBOX_BACKEND=sprites")
   }
@@ -112,7 +117,7 @@ function parseArgs(): { executePrompt: string | null } {
   for (let i = 0; i < args.length; i++) {
     const arg = args[i]
     if (arg === "--local") {
-      throw new Error("--local has been removed. Use SANDBOX_BACKEND=docker (default) or SANDBOX_BACKEND=sprites.")
+      throw new Error("--local has been removed. Use SANDBOX_BACKEND=docker (default), SANDBOX_BACKEND=sprites or SANDBOX_BACKEND=local.")
     }
     if (arg === "-x" && i + 1 < args.length) {
       executePrompt = args[i + 1]
@@ -133,7 +138,7 @@ async function runOnce(prompt: string): Promise<void> {
   const command = extractControlCommand(prompt)
   if (command) {
     try {
-      const result = await runControlCommand(command, FAKE_CHANNEL_ID, threadTs)
+      const result = await runControlCommand(command, FAKE_CHANNEL_ID, threadTs, FAKE_USER_ID)
       console.log(result)
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error)
@@ -176,6 +181,8 @@ async function runInteractive(): Promise<void> {
   console.log("  /clear          - Start fresh thread")
   console.log("  /status         - Show orchestrator/subagent status")
   console.log("  /abort          - Abort active subagent run")
+  console.log("  /cost           - Show token usage and cost for this thread and user")
+  console.log("  /history        - List recent coding jobs in this thread")
   console.log()
 
   const rl = readline.createInterface({
@@ -209,7 +216,7 @@ async function runInteractive(): Promise<void> {
       const command = extractControlCommand(trimmed)
       if (command) {
         try {
-          const result = await runControlCommand(command, FAKE_CHANNEL_ID, threadTs)
+          const result = await runControlCommand(command, FAKE_CHANNEL_ID, threadTs, FAKE_USER_ID)
           if (command === "status") {
             const orchestratorExists = hasOrchestratorSession(FAKE_CHANNEL_ID, threadTs)
             console.log(`\x1b[90m  Thread: ${FAKE_CHANNEL_ID}:${threadTs}\x1b[0m`)
@@ -106,16 +106,13 @@ async function main() {
 
     // Phase 4: Write AGENTS.md
     phaseStart = Date.now()
-    await client.exec(
-      sandboxName,
-      [
-        "bash",
-        "-c",
-        `printf '%s' 'You are a helpful assistant. Keep responses very short.' > /home/sprite/AGENTS.md`,
-      ],
-      { timeoutMs: 10000 }
-    )
-    console.log(`✓ AGENTS.md written (${ms(phaseStart)})`)
+    const agentsContent = Buffer.from("You are a helpful assistant. Keep responses very short.")
+    await client.uploadFile(sandboxName, "/home/sprite/AGENTS.md", agentsContent)
+    const roundTrip = await client.downloadFile(sandboxName, "/home/sprite/AGENTS.md")
+    if (!roundTrip.equals(agentsContent)) {
+      throw new Error("AGENTS.md read back with different content")
+    }
+    console.log(`✓ AGENTS.md uploaded and read back (${ms(phaseStart)})`)
 
     // Phase 5: Clean artifacts dir
     await client.exec(
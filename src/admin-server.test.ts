@@ -0,0 +1,97 @@
+import assert from "node:assert"
+import { afterEach, describe, it } from "node:test"
+import { AdminServer, type AdminOperations } from "./admin-server.js"
+import type { PersistedSubagentSession } from "./session-store.js"
+
+const session: PersistedSubagentSession = {
+  id: "sa_1",
+  key: "C1:1",
+  channelId: "C1",
+  threadTs: "1",
+  sandboxName: "jane-1",
+  piSessionFile: "/root/sessions/sa_1.jsonl",
+  status: "running",
+  turns: 1,
+  createdAt: 1,
+  updatedAt: 2,
+}
+
+function createFakeOperations(calls: string[]): AdminOperations {
+  return {
+    listSessions: (limit, offset) => {
+      calls.push(`list ${limit} ${offset}`)
+      return [session]
+    },
+    getSession: (id) => (id === "sa_1" ? { session, jobs: [] } : undefined),
+    listSandboxes: async () => [{ id: "jane-1", name: "jane-1", status: "running" }],
+    abortSession: async (id) => {
+      calls.push(`abort ${id}`)
+      return id === "sa_1" ? { subagentSessionId: id, status: "aborted", generatedFiles: [] } : { status: "not_found", generatedFiles: [] }
+    },
+    resetSession: async (id) => ({ subagentSessionId: id, status: "reset", generatedFiles: [] }),
+    deleteSandbox: async (name) => ({ status: name === "jane-1" ? "busy" : "deleted", subagentSessionId: "sa_1" }),
+  }
+}
+
+describe("AdminServer", () => {
+  let server: AdminServer | undefined
+
+  afterEach(async () => {
+    await server?.close()
+    server = undefined
+  })
+
+  async function start(calls: string[] = []): Promise<(path: string, init?: RequestInit) => Promise<Response>> {
+    server = new AdminServer("secret", createFakeOperations(calls))
+    const { port } = await server.listen("127.0.0.1", 0)
+    return (path, init = {}) => fetch(`http://127.0.0.1:${port}${path}`, {
+      ...init,
+      headers: { authorization: "Bearer secret", ...init.headers },
+    })
+  }
+
+  it("rejects requests without the bearer token", async () => {
+    const request = await start()
+    const res = await request("/sessions", { headers: { authorization: "Bearer wrong" } })
+    assert.strictEqual(res.status, 401)
+  })
+
+  it("lists and fetches sessions", async () => {
+    const calls: string[] = []
+    const request = await start(calls)
+
+    const list = await request("/sessions?limit=5000&offset=10")
+    assert.strictEqual(list.status, 200)
+    assert.deepStrictEqual((await list.json() as { sessions: unknown[] }).sessions.length, 1)
+    assert.deepStrictEqual(calls, ["list 500 10"])
+
+    assert.strictEqual((await request("/sessions/sa_1")).status, 200)
+    assert.strictEqual((await request("/sessions/sa_missing")).status, 404)
+  })
+
+  it("serves Prometheus metrics", async () => {
+    const request = await start()
+    const res = await request("/metrics")
+    assert.strictEqual(res.status, 200)
+    assert.match(await res.text(), /# TYPE janebot_orchestrator_turns_total counter/)
+  })
+
+  it("runs session and sandbox actions", async () => {
+    const calls: string[] = []
+    const request = await start(calls)
+
+    const abort = await request("/sessions/sa_1/abort", { method: "POST" })
+    assert.deepStrictEqual(await abort.json(), { subagentSessionId: "sa_1", status: "aborted" })
+    assert.strictEqual((await request("/sessions/sa_2/abort", { method: "POST" })).status, 404)
+    assert.deepStrictEqual(calls, ["abort sa_1", "abort sa_2"])
+
+    assert.strictEqual((await request("/sandboxes/jane-1", { method: "DELETE" })).status, 409)
+    assert.strictEqual((await request("/sandboxes/jane-2", { method: "DELETE" })).status, 200)
+    assert.strictEqual((await request("/sandboxes/jane-2", { method: "POST" })).status, 404)
+  })
+
+  it("rejects malformed path escapes", async () => {
+    const request = await start()
+    assert.strictEqual((await request("/sessions/sa_%E0%A4%A")).status, 400)
+  })
+})
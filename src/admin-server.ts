@@ -0,0 +1,174 @@
+/**
+ * Optional admin HTTP API.
+ *
+ * A small JSON API for operators, bound to localhost by default and protected
+ * by a bearer token. Routes:
+ *
+ *   GET    /sessions?limit=&offset=     subagent sessions, most recently updated first
+ *   GET    /sessions/:id                one session plus its recent jobs
+ *   POST   /sessions/:id/abort          abort the session's running job
+ *   POST   /sessions/:id/reset          abort, delete the sandbox and archive the session
+ *   GET    /sandboxes                   live sandboxes from the backend
+ *   DELETE /sandboxes/:name             delete a sandbox
+ *   GET    /metrics                     Prometheus metrics
+ */
+
+import { timingSafeEqual } from "node:crypto"
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http"
+import type { AddressInfo } from "node:net"
+import { deleteSubagentSandbox, runCodingSubagent, type RunCodingSubagentResult } from "./coding-subagent.js"
+import { HISTORY_LIMIT } from "./job-history.js"
+import * as log from "./logger.js"
+import { renderMetrics } from "./metrics.js"
+import { getSandboxClient, type SandboxInfo } from "./sandbox.js"
+import { getSessionStore, type PersistedSubagentJob, type PersistedSubagentSession } from "./session-store.js"
+
+const DEFAULT_LIST_LIMIT = 50
+const MAX_LIST_LIMIT = 500
+
+/**
+ * Operations the admin API exposes. The default implementation delegates to
+ * the session store, sandbox client and runCodingSubagent.
+ */
+export interface AdminOperations {
+  listSessions(limit: number, offset: number): PersistedSubagentSession[]
+  getSession(id: string): { session: PersistedSubagentSession; jobs: PersistedSubagentJob[] } | undefined
+  listSandboxes(): Promise<SandboxInfo[]>
+  abortSession(id: string): Promise<RunCodingSubagentResult>
+  resetSession(id: string): Promise<RunCodingSubagentResult>
+  deleteSandbox(name: string): Promise<{ status: "deleted" | "busy"; subagentSessionId?: string }>
+}
+
+export function createAdminOperations(): AdminOperations {
+  return {
+    listSessions: (limit, offset) => getSessionStore().listSessions(limit, offset),
+    getSession: (id) => {
+      const store = getSessionStore()
+      const session = store.getById(id)
+      return session ? { session, jobs: store.listJobs(session.key, HISTORY_LIMIT) } : undefined
+    },
+    listSandboxes: () => getSandboxClient().list("jane-"),
+    abortSession: (id) => runCodingSubagent({ action: "abort", subagentSessionId: id }),
+    resetSession: (id) => runCodingSubagent({ action: "reset", subagentSessionId: id }),
+    deleteSandbox: (name) => deleteSubagentSandbox(name),
+  }
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { "content-type": "application/json" })
+  res.end(JSON.stringify(body))
+}
+
+function parseLimit(value: string | null): number {
+  const parsed = parseInt(value ?? "", 10)
+  if (!Number.isFinite(parsed) || parsed <= 0) return DEFAULT_LIST_LIMIT
+  return Math.min(parsed, MAX_LIST_LIMIT)
+}
+
+function tokensMatch(expected: string, header: string | undefined): boolean {
+  const provided = header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : ""
+  const a = Buffer.from(expected)
+  const b = Buffer.from(provided)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+export class AdminServer {
+  private readonly server: Server
+  private readonly token: string
+  private readonly operations: AdminOperations
+
+  constructor(token: string, operations: AdminOperations = createAdminOperations()) {
+    if (!token) throw new Error("Admin API token must not be empty")
+    this.token = token
+    this.operations = operations
+    this.server = createServer((req, res) => {
+      void this.handle(req, res).catch((err) => {
+        log.error("Admin API request failed", err)
+        if (!res.headersSent) sendJson(res, 500, { error: err instanceof Error ? err.message : String(err) })
+        else res.end()
+      })
+    })
+  }
+
+  async listen(host: string, port: number): Promise<AddressInfo> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject)
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject)
+        resolve()
+      })
+    })
+    const address = this.server.address() as AddressInfo
+    log.info("Admin API listening", { host: address.address, port: address.port })
+    return address
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()))
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!tokensMatch(this.token, req.headers.authorization)) {
+      log.warn("Rejected admin API request", { method: req.method, path: req.url, address: req.socket.remoteAddress })
+      sendJson(res, 401, { error: "Unauthorized" })
+      return
+    }
+
+    const url = new URL(req.url ?? "/", "http://admin.local")
+    let parts: string[]
+    try {
+      parts = url.pathname.split("/").filter(Boolean).map(decodeURIComponent)
+    } catch {
+      sendJson(res, 400, { error: `Malformed path ${url.pathname}` })
+      return
+    }
+    const method = req.method ?? "GET"
+
+    if (url.pathname === "/metrics" && method === "GET") {
+      res.writeHead(200, { "content-type": "text/plain; version=0.0.4" })
+      res.end(renderMetrics())
+      return
+    }
+
+    log.info("Admin API request", { method, path: url.pathname })
+
+    if (parts[0] === "sessions") {
+      const id = parts[1]
+      if (!id && method === "GET") {
+        const limit = parseLimit(url.searchParams.get("limit"))
+        const offset = Math.max(0, parseInt(url.searchParams.get("offset") ?? "0", 10) || 0)
+        sendJson(res, 200, { sessions: this.operations.listSessions(limit, offset) })
+        return
+      }
+      if (id && parts.length === 2 && method === "GET") {
+        const found = this.operations.getSession(id)
+        if (!found) sendJson(res, 404, { error: `Session ${id} not found` })
+        else sendJson(res, 200, found)
+        return
+      }
+      if (id && parts.length === 3 && method === "POST" && (parts[2] === "abort" || parts[2] === "reset")) {
+        const result = parts[2] === "abort"
+          ? await this.operations.abortSession(id)
+          : await this.operations.resetSession(id)
+        if (result.status === "not_found") sendJson(res, 404, { error: `Session ${id} not found` })
+        else sendJson(res, 200, { subagentSessionId: result.subagentSessionId, status: result.status })
+        return
+      }
+    }
+
+    if (parts[0] === "sandboxes") {
+      const name = parts[1]
+      if (!name && method === "GET") {
+        sendJson(res, 200, { sandboxes: await this.operations.listSandboxes() })
+        return
+      }
+      if (name && parts.length === 2 && method === "DELETE") {
+        const result = await this.operations.deleteSandbox(name)
+        sendJson(res, result.status === "busy" ? 409 : 200, result)
+        return
+      }
+    }
+
+    sendJson(res, 404, { error: `No route for ${method} ${url.pathname}` })
+  }
+}
@@ -1,6 +1,6 @@
 import assert from "node:assert"
 import { describe, it } from "node:test"
-import { isExpectedCancellationError } from "./cancellation.js"
+import { createUserAbortError, isExpectedCancellationError } from "./cancellation.js"
 
 describe("isExpectedCancellationError", () => {
   it("does not treat generic cancellation-like runtime errors as expected", () => {
@@ -18,4 +18,8 @@ describe("isExpectedCancellationError", () => {
     const error = Object.assign(new Error("User requested abort"), { code: "JANE_USER_ABORT" })
     assert.strictEqual(isExpectedCancellationError(error), true)
   })
+
+  it("treats errors from createUserAbortError as expected", () => {
+    assert.strictEqual(isExpectedCancellationError(createUserAbortError("Subagent job job_1 aborted")), true)
+  })
 })
@@ -14,3 +14,7 @@ export function isExpectedCancellationError(error: unknown): boolean {
   const message = error.message.toLowerCase()
   return message.includes("[user-abort]") || message.includes("user requested abort")
 }
+
+export function createUserAbortError(message = "User requested abort"): Error {
+  return Object.assign(new Error(message), { code: "JANE_USER_ABORT" })
+}
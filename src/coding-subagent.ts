@@ -1,14 +1,46 @@
 import { createHash, randomUUID } from "crypto"
+import { createUserAbortError, isExpectedCancellationError } from "./cancellation.js"
 import { config } from "./config.js"
 import { getGitHubToken } from "./github-app.js"
 import * as log from "./logger.js"
+import { sandboxReadyDuration, subagentJobs } from "./metrics.js"
 import { parsePiOutput, type GeneratedFile } from "./pi-output.js"
-import { getSandboxClient, getSandboxName, type SandboxClient, type SandboxNetworkPolicyRule } from "./sandbox.js"
-import { getSessionStore, type PersistedSubagentSession } from "./session-store.js"
+import { applyPiEvent, createPiEventStream, createPiProgress, type PiProgress } from "./pi-progress.js"
+import {
+  getSandboxClient,
+  getSandboxName,
+  type SandboxClient,
+  type SandboxExecResult,
+  type SandboxNetworkPolicyRule,
+} from "./sandbox.js"
+import { followSandboxJob, launchSandboxJob, pollSandboxJob, sandboxJobFiles } from "./sandbox-jobs.js"
+import { getSandboxPool, initSandboxPool, SandboxPool } from "./sandbox-pool.js"
+import { minimumIdleMs, planReapAction, type SandboxIdlePolicy } from "./sandbox-reaper.js"
+import { recordUsage } from "./usage.js"
+import { formatDiffSummary, recordDiffBaseline, writeWorkspaceDiff } from "./workspace-diff.js"
+import {
+  createWorkspaceSnapshot,
+  deleteWorkspaceSnapshot,
+  listWorkspaceSnapshots,
+  makeSnapshotId,
+  MAX_WORKSPACE_SNAPSHOTS,
+  restoreWorkspaceSnapshot,
+  type WorkspaceSnapshot,
+} from "./workspace-snapshots.js"
+import {
+  getSessionStore,
+  type PersistedSandboxState,
+  type PersistedSubagentJob,
+  type PersistedSubagentSession,
+  type SubagentJobFinish,
+} from "./session-store.js"
 
 function workDir(client: SandboxClient): string { return `${client.homeDir}/workspace` }
 function artifactsDir(client: SandboxClient): string { return `${client.homeDir}/artifacts` }
+function inputsDir(client: SandboxClient): string { return `${workDir(client)}/${INPUTS_DIR}` }
 function sessionsDir(client: SandboxClient): string { return `${client.homeDir}/sessions` }
+function jobsDir(client: SandboxClient): string { return `${client.homeDir}/jobs` }
+function snapshotsDir(client: SandboxClient): string { return `${client.homeDir}/snapshots` }
 function ghLocalBinDir(client: SandboxClient): string { return `${client.homeDir}/.local/bin` }
 function miseBinDir(client: SandboxClient): string { return `${client.homeDir}/.local/share/mise/shims` }
 
@@ -18,6 +50,18 @@ const EXEC_TIMEOUT_MS = Number.isFinite(parsedTimeout) && parsedTimeout > 0
   ? parsedTimeout
   : DEFAULT_EXEC_TIMEOUT_MS
 
+// Workspace subdirectory that Slack attachments are written to.
+const INPUTS_DIR = "inputs"
+// Images attached to a single subagent message.
+const MAX_SUBAGENT_IMAGES = 5
+
+// Grace period between SIGTERM and SIGKILL when aborting a job.
+const ABORT_GRACE_MS = 10000
+
+// How long a reset waits for an aborted job's message handler to unwind.
+const RESET_UNWIND_MS = 10000
+const RESET_POLL_MS = 250
+
 const NETWORK_POLICY: SandboxNetworkPolicyRule[] = [
   { action: "allow", domain: "registry.npmjs.org" },
   { action: "allow", domain: "*.npmjs.org" },
@@ -56,6 +100,9 @@ interface SubagentSession {
   runningJobId?: string
   lastJobId?: string
   lastError?: string
+  sandboxState: PersistedSandboxState
+  generation: number
+  parentSessionId?: string
   turns: number
   createdAt: number
   updatedAt: number
@@ -64,6 +111,17 @@ interface SubagentSession {
 const sessionsByKey = new Map<string, SubagentSession>()
 const sessionsById = new Map<string, SubagentSession>()
 const readySandboxes = new Set<string>()
+// Host-side handles for in-flight jobs so an abort can release the waiting exec.
+const runningJobs = new Map<string, AbortController>()
+// Set at shutdown, once followers have let go of jobs left for the next start.
+let jobsDetached = false
+// Sessions currently handling a message or using their sandbox, counted per
+// holder since an upload can overlap a running message; the reaper never touches these.
+const busySessions = new Map<string, number>()
+// In-flight reaper actions by session id, awaited before a message revives the sandbox.
+const reapsInProgress = new Map<string, Promise<void>>()
+// Session creations in flight by thread key, so concurrent callers share one sandbox.
+const sessionCreations = new Map<string, Promise<SubagentSession>>()
 
 function ghInstallScript(binDir: string): string {
   return [
@@ -209,9 +267,9 @@ function makeThreadKey(channelId: string, threadTs: string): string {
   return `${channelId}:${threadTs}`
 }
 
-function makeSubagentSessionId(threadKey: string): string {
+function makeSubagentSessionId(threadKey: string, generation = 0): string {
   const hash = createHash("sha256").update(threadKey).digest("hex").slice(0, 16)
-  return `sa_${hash}`
+  return generation > 0 ? `sa_${hash}_g${generation}` : `sa_${hash}`
 }
 
 function makeJobId(): string {
@@ -271,6 +329,19 @@ function cacheSession(session: SubagentSession): SubagentSession {
   return session
 }
 
+function markBusy(sessionId: string): void {
+  busySessions.set(sessionId, (busySessions.get(sessionId) ?? 0) + 1)
+}
+
+function unmarkBusy(sessionId: string): void {
+  const holders = (busySessions.get(sessionId) ?? 1) - 1
+  if (holders > 0) {
+    busySessions.set(sessionId, holders)
+  } else {
+    busySessions.delete(sessionId)
+  }
+}
+
 function mapPersistedSession(persisted: PersistedSubagentSession): SubagentSession {
   return {
     id: persisted.id,
@@ -283,6 +354,9 @@ function mapPersistedSession(persisted: PersistedSubagentSession): SubagentSessi
     runningJobId: persisted.runningJobId,
     lastJobId: persisted.lastJobId,
     lastError: persisted.lastError,
+    sandboxState: persisted.sandboxState ?? "active",
+    generation: persisted.generation ?? 0,
+    parentSessionId: persisted.parentSessionId,
     turns: persisted.turns,
     createdAt: persisted.createdAt,
     updatedAt: persisted.updatedAt,
@@ -302,6 +376,9 @@ function persistSession(session: SubagentSession): void {
       runningJobId: session.runningJobId,
       lastJobId: session.lastJobId,
       lastError: session.lastError,
+      sandboxState: session.sandboxState,
+      generation: session.generation,
+      parentSessionId: session.parentSessionId,
       turns: session.turns,
       createdAt: session.createdAt,
       updatedAt: session.updatedAt,
@@ -314,16 +391,61 @@ function persistSession(session: SubagentSession): void {
   }
 }
 
-async function ensureSandboxReady(client: SandboxClient, sandboxName: string): Promise<void> {
-  if (readySandboxes.has(sandboxName)) return
+function recordJobStart(session: SubagentSession, jobId: string, instruction: string): void {
+  try {
+    getSessionStore().insertJob({
+      jobId,
+      subagentSessionId: session.id,
+      threadKey: session.key,
+      channelId: session.channelId,
+      threadTs: session.threadTs,
+      instruction,
+      status: "running",
+      artifacts: [],
+      startedAt: Date.now(),
+    })
+  } catch (err) {
+    log.warn("Failed to record subagent job start", {
+      subagentSessionId: session.id,
+      jobId,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  }
+}
 
-  log.debug("Ensuring sandbox is ready", { sandbox: sandboxName })
-  const existing = await client.get(sandboxName)
-  if (!existing) {
-    log.info("Creating coding subagent sandbox", { sandbox: sandboxName })
-    await client.create(sandboxName)
-  } else {
-    log.debug("Found existing sandbox", { sandbox: sandboxName, status: existing.status })
+function recordJobFinish(jobId: string, finish: Omit<SubagentJobFinish, "finishedAt">): void {
+  try {
+    // Several paths report the same failure; count only the one that lands.
+    if (getSessionStore().finishJob(jobId, { ...finish, finishedAt: Date.now() })) {
+      subagentJobs.inc({ status: finish.status })
+    }
+  } catch (err) {
+    log.warn("Failed to record subagent job result", {
+      jobId,
+      status: finish.status,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  }
+}
+
+async function ensureSandboxReady(client: SandboxClient, sandboxName: string): Promise<void> {
+  log.debug("Ensuring sandbox is running", { sandbox: sandboxName })
+  const startedAt = Date.now()
+  // Probe even cached sandboxes: the container may have exited or been removed out from under us.
+  const state = await client.ensureRunning(sandboxName)
+  const mode = state === "created" ? "create" : state === "started" ? "start" : "reuse"
+  if (state !== "running") {
+    if (readySandboxes.delete(sandboxName)) {
+      log.warn("Sandbox was not running; re-bootstrapping", { sandbox: sandboxName, state })
+    } else {
+      log.info(state === "created" ? "Created coding subagent sandbox" : "Started coding subagent sandbox", {
+        sandbox: sandboxName,
+      })
+    }
+  }
+  if (readySandboxes.has(sandboxName)) {
+    sandboxReadyDuration.observe({ mode }, (Date.now() - startedAt) / 1000)
+    return
   }
 
   // Apply egress policy before bootstrap so installs don't depend on permissive defaults.
@@ -334,7 +456,7 @@ async function ensureSandboxReady(client: SandboxClient, sandboxName: string): P
     "bash", "-c",
     [
       `if [ ! -x "${client.piBin}" ]; then npm_config_update_notifier=false "${client.npmBin}" install -g --no-audit --no-fund @mariozechner/pi-coding-agent@0.52.9; fi`,
-      `mkdir -p ${workDir(client)} ${artifactsDir(client)} ${sessionsDir(client)} ${ghLocalBinDir(client)}`,
+      `mkdir -p ${workDir(client)} ${artifactsDir(client)} ${sessionsDir(client)} ${jobsDir(client)} ${ghLocalBinDir(client)}`,
     ].join(" && "),
   ], {
     timeoutMs: 600000,
@@ -347,6 +469,7 @@ async function ensureSandboxReady(client: SandboxClient, sandboxName: string): P
   await ensureGhInstalled(client, sandboxName, "bootstrap")
 
   readySandboxes.add(sandboxName)
+  sandboxReadyDuration.observe({ mode }, (Date.now() - startedAt) / 1000)
   log.info("Coding subagent sandbox ready", { sandbox: sandboxName })
 }
 
@@ -362,10 +485,39 @@ async function ensureSession(
     return { session: existing, created: false }
   }
 
-  const subagentSessionId = makeSubagentSessionId(threadKey)
-  const sandboxName = getSandboxName(channelId, threadTs)
+  const pending = sessionCreations.get(threadKey)
+  if (pending) {
+    return { session: await pending, created: false }
+  }
 
-  await ensureSandboxReady(client, sandboxName)
+  const creation = createSession(client, channelId, threadTs)
+  sessionCreations.set(threadKey, creation)
+  try {
+    return { session: await creation, created: true }
+  } finally {
+    sessionCreations.delete(threadKey)
+  }
+}
+
+async function createSession(
+  client: SandboxClient,
+  channelId: string,
+  threadTs: string
+): Promise<SubagentSession> {
+  const threadKey = makeThreadKey(channelId, threadTs)
+  const generation = getNextGeneration(threadKey)
+  const subagentSessionId = makeSubagentSessionId(threadKey, generation)
+  const threadSandbox = getSandboxName(channelId, threadTs, generation)
+  const pooledSandbox = getSandboxPool()?.claim()
+  const sandboxName = pooledSandbox ? await renamePooledSandbox(client, pooledSandbox, threadSandbox) : threadSandbox
+
+  try {
+    await ensureSandboxReady(client, sandboxName)
+  } catch (err) {
+    // Nothing owns a claimed pool sandbox until the session is saved.
+    if (pooledSandbox) await deleteUnclaimedSandbox(client, sandboxName)
+    throw err
+  }
 
   const session: SubagentSession = {
     id: subagentSessionId,
@@ -375,6 +527,8 @@ async function ensureSession(
     sandboxName,
     piSessionFile: `${sessionsDir(client)}/${subagentSessionId}.jsonl`,
     status: "idle",
+    sandboxState: "active",
+    generation,
     turns: 0,
     createdAt: Date.now(),
     updatedAt: Date.now(),
@@ -382,9 +536,40 @@ async function ensureSession(
 
   cacheSession(session)
   persistSession(session)
-  log.debug("Created subagent session", { subagentSessionId, sandbox: sandboxName, threadKey })
+  log.debug("Created subagent session", { subagentSessionId, sandbox: sandboxName, threadKey, generation })
 
-  return { session, created: true }
+  return session
+}
+
+/**
+ * Give a sandbox claimed from the warm pool the thread's own name. Backends
+ * that can't rename keep the pool name. If the rename fails the pool sandbox
+ * is dropped and the thread gets a fresh sandbox under its own name.
+ */
+async function renamePooledSandbox(client: SandboxClient, pooledSandbox: string, threadSandbox: string): Promise<string> {
+  if (!client.rename) return pooledSandbox
+  try {
+    await client.rename(pooledSandbox, threadSandbox)
+  } catch (err) {
+    log.warn("Failed to rename claimed pool sandbox; creating the thread's own", {
+      sandbox: pooledSandbox,
+      threadSandbox,
+      error: err instanceof Error ? err.message : String(err),
+    })
+    await deleteUnclaimedSandbox(client, pooledSandbox)
+  }
+  readySandboxes.delete(pooledSandbox)
+  return threadSandbox
+}
+
+async function deleteUnclaimedSandbox(client: SandboxClient, sandboxName: string): Promise<void> {
+  readySandboxes.delete(sandboxName)
+  await client.delete(sandboxName).catch((err) => {
+    log.warn("Failed to delete claimed pool sandbox", {
+      sandbox: sandboxName,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  })
 }
 
 async function prepareSandboxRun(
@@ -407,13 +592,7 @@ async function prepareSandboxRun(
   env.ANTHROPIC_API_KEY = anthropicKey
 
   if (systemPrompt) {
-    const agentsContent = systemPrompt.replace(/'/g, "'\\''")
-    await client.exec(session.sandboxName, [
-      "bash", "-c", `printf '%s' '${agentsContent}' > ${client.homeDir}/AGENTS.md`,
-    ], {
-      timeoutMs: 30000,
-      dir: workDir(client),
-    })
+    await client.uploadFile(session.sandboxName, `${client.homeDir}/AGENTS.md`, Buffer.from(systemPrompt))
   }
 
   await client.exec(session.sandboxName, [
@@ -581,6 +760,65 @@ async function isSessionPiProcessRunning(client: SandboxClient, session: Subagen
   }
 }
 
+/**
+ * Stop a job's process group inside the sandbox: SIGTERM first, then SIGKILL
+ * if it hasn't exited within the grace period.
+ */
+async function killSandboxJob(client: SandboxClient, session: SubagentSession, jobId: string): Promise<void> {
+  const pidFile = sandboxJobFiles(jobsDir(client), jobId).pid.replace(/'/g, "'\\''")
+  const graceChecks = Math.ceil(ABORT_GRACE_MS / 500)
+  const killScript = [
+    `pid_file='${pidFile}'`,
+    "[ -f \"$pid_file\" ] || exit 3",
+    "pgid=$(cat \"$pid_file\")",
+    "case \"$pgid\" in ''|*[!0-9]*) exit 4 ;; esac",
+    "kill -TERM -- \"-$pgid\" 2>/dev/null || { rm -f \"$pid_file\"; exit 0; }",
+    `for _ in $(seq 1 ${graceChecks}); do`,
+    "  kill -0 -- \"-$pgid\" 2>/dev/null || { rm -f \"$pid_file\"; exit 0; }",
+    "  sleep 0.5",
+    "done",
+    "kill -KILL -- \"-$pgid\" 2>/dev/null",
+    "rm -f \"$pid_file\"",
+    "exit 2",
+  ].join("\n")
+
+  try {
+    const result = await client.exec(session.sandboxName, ["bash", "-c", killScript], {
+      timeoutMs: ABORT_GRACE_MS + 20000,
+      maxRetries: 1,
+      dir: workDir(client),
+    })
+    if (result.exitCode === 3) {
+      log.warn("No pid file found for subagent job; nothing to kill", {
+        subagentSessionId: session.id,
+        sandbox: session.sandboxName,
+        jobId,
+      })
+    } else if (result.exitCode === 2) {
+      log.warn("Subagent job ignored SIGTERM; sent SIGKILL", {
+        subagentSessionId: session.id,
+        sandbox: session.sandboxName,
+        jobId,
+      })
+    } else if (result.exitCode !== 0) {
+      log.warn("Failed to kill subagent job", {
+        subagentSessionId: session.id,
+        sandbox: session.sandboxName,
+        jobId,
+        exitCode: result.exitCode,
+        stderr: result.stderr || result.stdout,
+      })
+    }
+  } catch (err) {
+    log.warn("Failed to kill subagent job", {
+      subagentSessionId: session.id,
+      sandbox: session.sandboxName,
+      jobId,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  }
+}
+
 async function reconcileRunningSessionState(client: SandboxClient, session: SubagentSession): Promise<void> {
   if (session.status !== "running") return
 
@@ -598,12 +836,41 @@ async function reconcileRunningSessionState(client: SandboxClient, session: Suba
   persistSession(session)
 }
 
+/**
+ * Turn workspace-relative image paths into Pi `@file` arguments. Paths that
+ * leave the workspace or don't exist are dropped, since Pi exits on a missing file.
+ */
+async function resolveImageArgs(client: SandboxClient, session: SubagentSession, images: string[]): Promise<string[]> {
+  const candidates = images.filter((path) => {
+    const inWorkspace = path.length > 0 && !path.startsWith("/") && !path.startsWith("-") && !path.split("/").includes("..")
+    if (!inWorkspace) log.warn("Ignoring subagent image outside the workspace", { subagentSessionId: session.id, path })
+    return inWorkspace
+  }).slice(0, MAX_SUBAGENT_IMAGES)
+  if (candidates.length === 0) return []
+
+  const result = await client.exec(session.sandboxName, [
+    "bash", "-c", 'for f in "$@"; do if [ -f "$f" ]; then printf "%s\\n" "$f"; fi; done', "_", ...candidates,
+  ], {
+    timeoutMs: 10000,
+    dir: workDir(client),
+  })
+  const existing = new Set(result.stdout.split("\n").filter(Boolean))
+  const missing = candidates.filter((path) => !existing.has(path))
+  if (missing.length > 0) {
+    log.warn("Ignoring missing subagent images", { subagentSessionId: session.id, missing })
+  }
+  return candidates.filter((path) => existing.has(path)).map((path) => `@${path}`)
+}
+
 async function sendMessageToSubagent(
   client: SandboxClient,
   session: SubagentSession,
   message: string,
-  systemPrompt: string | undefined
-): Promise<{ content: string; generatedFiles: GeneratedFile[]; jobId: string }> {
+  systemPrompt: string | undefined,
+  onProgress?: (progress: PiProgress) => void,
+  userId?: string,
+  images: string[] = []
+): Promise<{ content: string; generatedFiles: GeneratedFile[]; jobId: string; diffSummary?: string }> {
   await ensureSandboxReady(client, session.sandboxName)
   log.debug("Sending message to coding subagent", {
     subagentSessionId: session.id,
@@ -612,6 +879,8 @@ async function sendMessageToSubagent(
   })
 
   const env = await prepareSandboxRun(client, session, systemPrompt)
+  const jobId = makeJobId()
+  const files = sandboxJobFiles(jobsDir(client), jobId)
   const args: string[] = [client.piBin, "--mode", "json", "--session", session.piSessionFile]
 
   if (config.piModel) {
@@ -620,27 +889,99 @@ async function sendMessageToSubagent(
   if (config.piThinkingLevel && config.piThinkingLevel !== "off") {
     args.push("--thinking", config.piThinkingLevel)
   }
+  args.push(...await resolveImageArgs(client, session, images))
 
-  const jobId = makeJobId()
+  // Marked running before the snapshot, so an abort can stop the job there too.
   session.runningJobId = jobId
   session.status = "running"
   session.updatedAt = Date.now()
   persistSession(session)
+  recordJobStart(session, jobId, message)
 
-  const result = await client.exec(session.sandboxName, args, {
-    env,
-    stdin: message + "\n",
-    timeoutMs: EXEC_TIMEOUT_MS,
-    dir: workDir(client),
+  const progress = createPiProgress()
+  const onStdout = onProgress
+    ? createPiEventStream((event) => {
+      if (applyPiEvent(progress, event)) onProgress(progress)
+    })
+    : undefined
+
+  const controller = new AbortController()
+  runningJobs.set(jobId, controller)
+  let result: SandboxExecResult
+  try {
+    await snapshotWorkspace(client, session, jobId, controller.signal)
+    await recordJobDiffBaseline(client, session, jobId, controller.signal)
+    controller.signal.throwIfAborted()
+
+    await launchSandboxJob(client, session.sandboxName, files, args, {
+      env,
+      stdin: message + "\n",
+      dir: workDir(client),
     })
+    // An abort that landed during the launch had no process to kill yet.
+    if (controller.signal.aborted && !jobsDetached) await killSandboxJob(client, session, jobId)
+
+    try {
+      result = await followSandboxJob(client, session.sandboxName, files, {
+        timeoutMs: EXEC_TIMEOUT_MS,
+        onStdout,
+        signal: controller.signal,
+      })
+    } catch (err) {
+      // Don't leave a job we've given up on running in the sandbox; aborts already kill it.
+      if (!controller.signal.aborted) await killSandboxJob(client, session, jobId)
+      throw err
+    }
+  } finally {
+    runningJobs.delete(jobId)
+  }
 
-    if (result.exitCode !== 0) {
+  return completeJob(client, session, jobId, result, userId)
+}
+
+/**
+ * Turn a finished job's output into a result and mark the session idle.
+ * Throws if Pi exited non-zero.
+ */
+async function completeJob(
+  client: SandboxClient,
+  session: SubagentSession,
+  jobId: string,
+  result: SandboxExecResult,
+  userId?: string
+): Promise<{ content: string; generatedFiles: GeneratedFile[]; jobId: string; diffSummary?: string }> {
+  if (result.exitCode !== 0) {
     const stderr = result.stderr.slice(0, 500)
-    throw new Error(`Pi exited with code ${result.exitCode}${stderr ? `: ${stderr}` : ""}`)
+    const error = `Pi exited with code ${result.exitCode}${stderr ? `: ${stderr}` : ""}`
+    recordJobFinish(jobId, { status: "failed", exitCode: result.exitCode, error })
+    throw new Error(error)
   }
 
-  const { content } = parsePiOutput(result.stdout)
+  const { content, model, usage } = parsePiOutput(result.stdout)
+  recordUsage({
+    threadKey: session.key,
+    channelId: session.channelId,
+    threadTs: session.threadTs,
+    userId,
+    source: "subagent",
+    jobId,
+    model,
+    inputTokens: usage.input,
+    outputTokens: usage.output,
+    cacheReadTokens: usage.cacheRead,
+    cacheWriteTokens: usage.cacheWrite,
+    costUsd: usage.cost,
+    createdAt: Date.now(),
+  })
+  const diff = await collectJobDiff(client, session, jobId)
   const generatedFiles = await collectArtifacts(client, session)
+  if (diff) generatedFiles.push(diff.file)
+  recordJobFinish(jobId, {
+    status: "completed",
+    exitCode: 0,
+    model,
+    artifacts: generatedFiles.map((file) => file.filename),
+  })
   log.debug("Subagent run completed", {
     subagentSessionId: session.id,
     jobId,
@@ -659,7 +1000,744 @@ async function sendMessageToSubagent(
     content: content || "Done.",
     generatedFiles,
     jobId,
+    diffSummary: diff?.summary,
+  }
+}
+
+/**
+ * Kill the session's running job, if any, and mark the session idle.
+ */
+async function abortSessionJob(client: SandboxClient, session: SubagentSession): Promise<void> {
+  const jobId = session.runningJobId
+  if (jobId) {
+    log.info("Aborting subagent job", { subagentSessionId: session.id, sandbox: session.sandboxName, jobId })
+    // Record the abort and release the follower first, so the exit status of the
+    // killed process can't get the job recorded as failed.
+    recordJobFinish(jobId, { status: "aborted" })
+    runningJobs.get(jobId)?.abort(createUserAbortError(`Subagent job ${jobId} aborted by user request`))
+    await killSandboxJob(client, session, jobId)
   }
+
+  session.runningJobId = undefined
+  session.status = "idle"
+  session.updatedAt = Date.now()
+}
+
+/**
+ * Snapshot the workspace before a job and record it on the job. A failed
+ * snapshot is logged and the job runs anyway; it just can't be undone. An
+ * abort is rethrown.
+ */
+async function snapshotWorkspace(
+  client: SandboxClient,
+  session: SubagentSession,
+  jobId: string,
+  signal: AbortSignal
+): Promise<void> {
+  const snapshotId = makeSnapshotId(jobId)
+  try {
+    await createWorkspaceSnapshot(client, session.sandboxName, workDir(client), snapshotsDir(client), snapshotId, signal)
+  } catch (err) {
+    signal.throwIfAborted()
+    log.warn("Failed to snapshot workspace before job", {
+      subagentSessionId: session.id,
+      sandbox: session.sandboxName,
+      jobId,
+      error: err instanceof Error ? err.message : String(err),
+    })
+    return
+  }
+  try {
+    getSessionStore().setJobSnapshot(jobId, snapshotId)
+  } catch (err) {
+    log.warn("Failed to record workspace snapshot", {
+      jobId,
+      snapshotId,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  }
+}
+
+function diffBaselinePath(client: SandboxClient, jobId: string): string {
+  return `${jobsDir(client)}/${jobId}.base`
+}
+
+async function recordJobDiffBaseline(
+  client: SandboxClient,
+  session: SubagentSession,
+  jobId: string,
+  signal: AbortSignal
+): Promise<void> {
+  try {
+    await recordDiffBaseline(client, session.sandboxName, workDir(client), diffBaselinePath(client, jobId), signal)
+  } catch (err) {
+    signal.throwIfAborted()
+    log.warn("Failed to record diff baseline before job", {
+      subagentSessionId: session.id,
+      sandbox: session.sandboxName,
+      jobId,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  }
+}
+
+/**
+ * Diff the workspace against the job's baseline and fetch the patch, and
+ * return it with a stat summary naming it. The patch is kept out of the
+ * artifacts directory so the artifact limits never drop it. Undefined if
+ * nothing changed or the patch couldn't be produced.
+ */
+async function collectJobDiff(
+  client: SandboxClient,
+  session: SubagentSession,
+  jobId: string
+): Promise<{ file: GeneratedFile; summary: string } | undefined> {
+  const patchFilename = `${jobId}.patch`
+  const patchPath = `${jobsDir(client)}/${patchFilename}`
+  try {
+    const stats = await writeWorkspaceDiff(
+      client,
+      session.sandboxName,
+      workDir(client),
+      diffBaselinePath(client, jobId),
+      patchPath,
+    )
+    if (stats.length === 0) return undefined
+    const data = await client.downloadFile(session.sandboxName, patchPath)
+    return { file: { path: patchPath, filename: patchFilename, data }, summary: formatDiffSummary(stats, patchFilename) }
+  } catch (err) {
+    log.warn("Failed to diff workspace after job", {
+      subagentSessionId: session.id,
+      sandbox: session.sandboxName,
+      jobId,
+      error: err instanceof Error ? err.message : String(err),
+    })
+    return undefined
+  }
+}
+
+function listSessionJobs(session: SubagentSession): PersistedSubagentJob[] {
+  try {
+    return getSessionStore()
+      .listJobs(session.key, MAX_WORKSPACE_SNAPSHOTS)
+      .filter((job) => job.subagentSessionId === session.id)
+  } catch (err) {
+    log.warn("Failed to load subagent jobs from SQLite", {
+      subagentSessionId: session.id,
+      error: err instanceof Error ? err.message : String(err),
+    })
+    return []
+  }
+}
+
+/**
+ * Workspace snapshots kept in the thread's sandbox, newest first, with the
+ * jobs they were taken before. Undefined if the thread has no session.
+ */
+export async function listSubagentSnapshots(
+  channelId: string,
+  threadTs: string
+): Promise<{ snapshots: WorkspaceSnapshot[]; jobs: PersistedSubagentJob[] } | undefined> {
+  const session = getSessionByThread(channelId, threadTs)
+  if (!session) return undefined
+  // Snapshots live in the sandbox, so a deleted sandbox took them with it.
+  if (session.sandboxState === "deleted") return { snapshots: [], jobs: [] }
+
+  const client = getSandboxClient()
+  markBusy(session.id)
+  try {
+    await reapsInProgress.get(session.id)
+    reviveSandbox(session)
+    await ensureSandboxReady(client, session.sandboxName)
+    const snapshots = await listWorkspaceSnapshots(client, session.sandboxName, snapshotsDir(client))
+    return { snapshots, jobs: listSessionJobs(session) }
+  } finally {
+    unmarkBusy(session.id)
+  }
+}
+
+export type UndoSubagentTurnResult =
+  | { status: "restored"; jobId: string; snapshotId: string; instruction: string }
+  | { status: "not_found" | "busy" | "no_snapshot" }
+
+/**
+ * Restore the workspace to how it was before the thread's most recent job
+ * that has a snapshot, then drop that snapshot so a second undo goes one job
+ * further back. Pi's session transcript is left as it is.
+ */
+export async function undoLastSubagentTurn(channelId: string, threadTs: string): Promise<UndoSubagentTurnResult> {
+  const session = getSessionByThread(channelId, threadTs)
+  if (!session) return { status: "not_found" }
+  if (session.status === "running" || busySessions.has(session.id)) return { status: "busy" }
+  if (session.sandboxState === "deleted") return { status: "no_snapshot" }
+
+  const client = getSandboxClient()
+  markBusy(session.id)
+  try {
+    await reapsInProgress.get(session.id)
+    reviveSandbox(session)
+    await ensureSandboxReady(client, session.sandboxName)
+
+    const available = new Set(
+      (await listWorkspaceSnapshots(client, session.sandboxName, snapshotsDir(client))).map((snapshot) => snapshot.id)
+    )
+    const job = listSessionJobs(session).find((entry) => entry.snapshotId && available.has(entry.snapshotId))
+    if (!job?.snapshotId) return { status: "no_snapshot" }
+
+    const restored = await restoreWorkspaceSnapshot(
+      client,
+      session.sandboxName,
+      workDir(client),
+      snapshotsDir(client),
+      job.snapshotId,
+    )
+    if (!restored) return { status: "no_snapshot" }
+    await deleteWorkspaceSnapshot(client, session.sandboxName, snapshotsDir(client), job.snapshotId)
+
+    log.info("Restored workspace snapshot", {
+      subagentSessionId: session.id,
+      sandbox: session.sandboxName,
+      jobId: job.jobId,
+      snapshotId: job.snapshotId,
+    })
+    session.updatedAt = Date.now()
+    persistSession(session)
+    return { status: "restored", jobId: job.jobId, snapshotId: job.snapshotId, instruction: job.instruction }
+  } finally {
+    unmarkBusy(session.id)
+  }
+}
+
+export type ForkSubagentSessionResult =
+  | { status: "forked"; threadTs: string; subagentSessionId: string; sandboxName: string }
+  | { status: "not_found" | "busy" | "no_sandbox" }
+
+/**
+ * Fork a thread's session into a new thread: call `startThread` for the new
+ * thread's ts, checkpoint the parent's sandbox, then create the new thread's
+ * sandbox from the checkpoint with a copy of the Pi session file, so both
+ * threads carry on from the same point. The new session records its parent.
+ * If that fails, the half-made sandbox is deleted before the error is thrown.
+ */
+export async function forkSubagentSession(
+  channelId: string,
+  threadTs: string,
+  startThread: () => Promise<string>
+): Promise<ForkSubagentSessionResult> {
+  const parent = getSessionByThread(channelId, threadTs)
+  if (!parent) return { status: "not_found" }
+  if (parent.status === "running" || busySessions.has(parent.id)) return { status: "busy" }
+  // A deleted sandbox has no workspace left to fork.
+  if (parent.sandboxState === "deleted") return { status: "no_sandbox" }
+
+  const client = getSandboxClient()
+  markBusy(parent.id)
+  try {
+    await reapsInProgress.get(parent.id)
+    reviveSandbox(parent)
+    await ensureSandboxReady(client, parent.sandboxName)
+
+    const forkThreadTs = await startThread()
+    const threadKey = makeThreadKey(channelId, forkThreadTs)
+    const generation = getNextGeneration(threadKey)
+    const subagentSessionId = makeSubagentSessionId(threadKey, generation)
+    const sandboxName = getSandboxName(channelId, forkThreadTs, generation)
+    const piSessionFile = `${sessionsDir(client)}/${subagentSessionId}.jsonl`
+    let checkpointId: string | undefined
+    try {
+      checkpointId = await client.checkpoint(parent.sandboxName)
+      await client.createFromCheckpoint(sandboxName, parent.sandboxName, checkpointId)
+      await ensureSandboxReady(client, sandboxName)
+
+      const copied = await client.exec(sandboxName, [
+        "bash", "-c", 'if [ -f "$0" ]; then cp "$0" "$1"; fi', parent.piSessionFile, piSessionFile,
+      ])
+      if (copied.exitCode !== 0) {
+        throw new Error(`Failed to copy Pi session file: ${copied.stderr.trim() || copied.stdout.trim()}`)
+      }
+    } catch (err) {
+      readySandboxes.delete(sandboxName)
+      if (checkpointId) {
+        await client.delete(sandboxName).catch((deleteErr) => {
+          log.warn("Failed to delete sandbox of failed fork", {
+            sandbox: sandboxName,
+            error: deleteErr instanceof Error ? deleteErr.message : String(deleteErr),
+          })
+        })
+      }
+      throw err
+    }
+
+    const session: SubagentSession = {
+      id: subagentSessionId,
+      key: threadKey,
+      channelId,
+      threadTs: forkThreadTs,
+      sandboxName,
+      piSessionFile,
+      status: "idle",
+      sandboxState: "active",
+      generation,
+      parentSessionId: parent.id,
+      turns: parent.turns,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    }
+    cacheSession(session)
+    persistSession(session)
+    log.info("Forked subagent session", {
+      subagentSessionId,
+      parentSessionId: parent.id,
+      sandbox: sandboxName,
+      parentSandbox: parent.sandboxName,
+      checkpointId,
+    })
+    return { status: "forked", threadTs: forkThreadTs, subagentSessionId, sandboxName }
+  } finally {
+    unmarkBusy(parent.id)
+  }
+}
+
+/**
+ * Write files into the thread's sandbox under `inputs/` in the workspace,
+ * creating the session and sandbox first if the thread has none. Returns the
+ * workspace-relative paths in input order; a later file with the same name
+ * replaces the earlier one.
+ */
+export async function uploadSubagentInputs(
+  channelId: string,
+  threadTs: string,
+  files: Array<{ filename: string; data: Buffer }>
+): Promise<string[]> {
+  const client = getSandboxClient()
+  const { session } = await ensureSession(client, channelId, threadTs)
+  markBusy(session.id)
+  try {
+    await reapsInProgress.get(session.id)
+    reviveSandbox(session)
+    await ensureSandboxReady(client, session.sandboxName)
+
+    const paths: string[] = []
+    for (const file of files) {
+      await client.uploadFile(session.sandboxName, `${inputsDir(client)}/${file.filename}`, file.data)
+      paths.push(`${INPUTS_DIR}/${file.filename}`)
+    }
+    log.info("Uploaded thread inputs to sandbox", {
+      subagentSessionId: session.id,
+      sandbox: session.sandboxName,
+      files: paths,
+    })
+    return paths
+  } finally {
+    unmarkBusy(session.id)
+  }
+}
+
+/**
+ * Delete a sandbox by name. A session that owns it is marked so its next
+ * message recreates the sandbox; sandboxes with a running job are left alone.
+ */
+export async function deleteSubagentSandbox(
+  sandboxName: string
+): Promise<{ status: "deleted" | "busy"; subagentSessionId?: string }> {
+  const client = getSandboxClient()
+  let owner: SubagentSession | undefined
+  try {
+    const persisted = getSessionStore().getBySandboxName(sandboxName)
+    if (persisted) owner = sessionsById.get(persisted.id) ?? cacheSession(mapPersistedSession(persisted))
+  } catch (err) {
+    log.warn("Failed to look up sandbox owner in SQLite", {
+      sandbox: sandboxName,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  }
+
+  if (owner && (owner.status === "running" || busySessions.has(owner.id))) {
+    return { status: "busy", subagentSessionId: owner.id }
+  }
+
+  await client.delete(sandboxName)
+  readySandboxes.delete(sandboxName)
+  log.info("Deleted sandbox on request", { sandbox: sandboxName, subagentSessionId: owner?.id })
+
+  if (owner) {
+    owner.sandboxState = "deleted"
+    persistSession(owner)
+  }
+  return { status: "deleted", subagentSessionId: owner?.id }
+}
+
+function getNextGeneration(threadKey: string): number {
+  try {
+    return getSessionStore().getNextGeneration(threadKey)
+  } catch (err) {
+    log.warn("Failed to read session generation from SQLite", {
+      threadKey,
+      error: err instanceof Error ? err.message : String(err),
+    })
+    return 0
+  }
+}
+
+/**
+ * Throw away a thread's session: abort its job, delete its sandbox and
+ * archive its row. The thread's next message starts a new generation with a
+ * fresh sandbox and Pi session file. Returns false if the aborted job's
+ * handler is still unwinding, in which case nothing is archived.
+ */
+async function resetSession(client: SandboxClient, session: SubagentSession): Promise<boolean> {
+  await abortSessionJob(client, session)
+  await reapsInProgress.get(session.id)
+
+  const deadline = Date.now() + RESET_UNWIND_MS
+  while (busySessions.has(session.id) && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, RESET_POLL_MS))
+  }
+  if (busySessions.has(session.id)) {
+    persistSession(session)
+    return false
+  }
+
+  log.info("Resetting subagent session", {
+    subagentSessionId: session.id,
+    sandbox: session.sandboxName,
+    generation: session.generation,
+  })
+  // Retire the session before the slow delete, so a message arriving meanwhile
+  // starts the next generation instead of picking up the doomed sandbox.
+  sessionsByKey.delete(session.key)
+  sessionsById.delete(session.id)
+  readySandboxes.delete(session.sandboxName)
+  try {
+    getSessionStore().archiveSession(session.id, Date.now())
+  } catch (err) {
+    log.warn("Failed to archive subagent session in SQLite", {
+      subagentSessionId: session.id,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  }
+
+  if (session.sandboxState !== "deleted") {
+    try {
+      await client.delete(session.sandboxName)
+    } catch (err) {
+      // The new generation gets its own sandbox either way; the admin API can remove this one later.
+      log.warn("Failed to delete sandbox during reset", {
+        subagentSessionId: session.id,
+        sandbox: session.sandboxName,
+        error: err instanceof Error ? err.message : String(err),
+      })
+    }
+  }
+  return true
+}
+
+/**
+ * Mark a reaped sandbox for re-bootstrap; ensureSandboxReady then restarts a
+ * stopped one or recreates a deleted one.
+ */
+function reviveSandbox(session: SubagentSession): void {
+  if (session.sandboxState === "active") return
+
+  log.info("Reviving reaped subagent sandbox", {
+    subagentSessionId: session.id,
+    sandbox: session.sandboxName,
+    sandboxState: session.sandboxState,
+  })
+  readySandboxes.delete(session.sandboxName)
+  session.sandboxState = "active"
+  persistSession(session)
+}
+
+async function reapSession(
+  client: SandboxClient,
+  session: SubagentSession,
+  action: "stop" | "delete"
+): Promise<void> {
+  log.info(action === "delete" ? "Deleting idle subagent sandbox" : "Stopping idle subagent sandbox", {
+    subagentSessionId: session.id,
+    sandbox: session.sandboxName,
+    idleMs: Date.now() - session.updatedAt,
+  })
+
+  if (action === "delete") {
+    await client.delete(session.sandboxName)
+  } else {
+    await client.stop(session.sandboxName)
+  }
+
+  readySandboxes.delete(session.sandboxName)
+  // Leave updatedAt alone so idle time keeps accruing towards deletion.
+  session.sandboxState = action === "delete" ? "deleted" : "stopped"
+  persistSession(session)
+}
+
+/**
+ * Stop or delete sandboxes whose sessions have been idle past the policy
+ * thresholds. Sessions that are running or handling a message are skipped.
+ */
+export async function reapIdleSandboxes(policy: SandboxIdlePolicy, now = Date.now()): Promise<void> {
+  const idleMs = minimumIdleMs(policy)
+  if (idleMs === undefined) return
+
+  const client = getSandboxClient()
+  const candidates = getSessionStore().listIdleSessions(now - idleMs)
+
+  for (const candidate of candidates) {
+    // Prefer the cached session so in-memory state stays authoritative.
+    const session = sessionsById.get(candidate.id) ?? cacheSession(mapPersistedSession(candidate))
+    if (busySessions.has(session.id) || reapsInProgress.has(session.id)) continue
+
+    const action = planReapAction(session, policy, now)
+    if (!action) continue
+
+    // Registered synchronously after the checks above so a new message can't slip in between.
+    const reap = reapSession(client, session, action)
+      .catch((err) => {
+        log.warn("Failed to reap idle subagent sandbox", {
+          subagentSessionId: session.id,
+          sandbox: session.sandboxName,
+          action,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      })
+      .finally(() => reapsInProgress.delete(session.id))
+    reapsInProgress.set(session.id, reap)
+    await reap
+  }
+}
+
+/**
+ * What happened to a job that was running when the process last stopped:
+ * - `reattached`: Pi is still running; it is followed until it exits
+ * - `completed` / `failed`: Pi finished and its result was collected from the job log
+ * - `interrupted`: Pi stopped without recording an exit status, so there is no result
+ * - `lost`: the sandbox itself is gone
+ */
+export type RecoveredJobOutcome = "reattached" | "completed" | "failed" | "interrupted" | "lost"
+
+export interface RecoveredJob {
+  subagentSessionId: string
+  channelId: string
+  threadTs: string
+  jobId?: string
+  outcome: RecoveredJobOutcome
+  content?: string
+  generatedFiles?: GeneratedFile[]
+  error?: string
+}
+
+/**
+ * Collect a recovered job's result, recording failures on the session.
+ */
+async function settleRecoveredJob(
+  client: SandboxClient,
+  session: SubagentSession,
+  jobId: string,
+  result: SandboxExecResult | Error
+): Promise<RecoveredJob> {
+  const job = {
+    subagentSessionId: session.id,
+    channelId: session.channelId,
+    threadTs: session.threadTs,
+    jobId,
+  }
+
+  try {
+    if (result instanceof Error) throw result
+    const { content, generatedFiles, diffSummary } = await completeJob(client, session, jobId, result)
+    return {
+      ...job,
+      outcome: "completed",
+      content: diffSummary ? `${content}\n\n${diffSummary}` : content,
+      generatedFiles,
+    }
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err)
+    recordJobFinish(jobId, { status: "failed", error })
+    session.status = "error"
+    session.lastError = error
+    session.lastJobId = jobId
+    session.runningJobId = undefined
+    session.updatedAt = Date.now()
+    persistSession(session)
+    return { ...job, outcome: "failed", error }
+  }
+}
+
+/**
+ * Follow a job left running by a previous process until it exits and hand
+ * its result to `onFinished`.
+ */
+async function followRecoveredJob(
+  client: SandboxClient,
+  session: SubagentSession,
+  jobId: string,
+  onFinished: (job: RecoveredJob) => Promise<void>
+): Promise<void> {
+  const controller = new AbortController()
+  runningJobs.set(jobId, controller)
+  let result: SandboxExecResult | Error
+  try {
+    result = await followSandboxJob(client, session.sandboxName, sandboxJobFiles(jobsDir(client), jobId), {
+      timeoutMs: Math.max(0, session.updatedAt + EXEC_TIMEOUT_MS - Date.now()),
+      signal: controller.signal,
+    })
+  } catch (err) {
+    if (jobsDetached && isExpectedCancellationError(err)) return
+    if (isExpectedCancellationError(err)) {
+      // Aborted by the user; the abort action has already killed the job.
+      recordJobFinish(jobId, { status: "aborted" })
+      session.status = "idle"
+      session.runningJobId = undefined
+      session.updatedAt = Date.now()
+      persistSession(session)
+      return
+    }
+    result = err instanceof Error ? err : new Error(String(err))
+    if (!controller.signal.aborted) await killSandboxJob(client, session, jobId)
+  } finally {
+    runningJobs.delete(jobId)
+  }
+
+  const job = await settleRecoveredJob(client, session, jobId, result)
+  log.info("Recovered subagent job finished", { subagentSessionId: session.id, jobId, outcome: job.outcome })
+  await onFinished(job)
+}
+
+/**
+ * Stop following running jobs without killing them, for shutdown. The jobs
+ * stay running in their sandboxes and recorded as running, so the next start
+ * reattaches to them. Callers waiting on a job get a cancellation error.
+ */
+export function detachRunningJobs(): void {
+  jobsDetached = true
+  for (const [jobId, controller] of runningJobs) {
+    controller.abort(createUserAbortError(`Subagent job ${jobId} detached for shutdown`))
+  }
+}
+
+/**
+ * Settle sessions left in `running` by a crash or restart. Each job's files
+ * are polled: finished jobs have their result collected, live ones are
+ * reattached and followed, and the rest are marked idle (or error if the
+ * sandbox is gone). `onFinished` is called when a reattached job later exits.
+ */
+export async function reconcileRunningSessions(
+  onFinished: (job: RecoveredJob) => Promise<void>
+): Promise<RecoveredJob[]> {
+  const client = getSandboxClient()
+  let rows: PersistedSubagentSession[]
+  try {
+    rows = getSessionStore().listRunningSessions()
+  } catch (err) {
+    log.warn("Failed to list running subagent sessions from SQLite", {
+      error: err instanceof Error ? err.message : String(err),
+    })
+    return []
+  }
+
+  const recovered: RecoveredJob[] = []
+  for (const row of rows) {
+    const session = sessionsById.get(row.id) ?? cacheSession(mapPersistedSession(row))
+    const jobId = session.runningJobId
+    const job: RecoveredJob = {
+      subagentSessionId: session.id,
+      channelId: session.channelId,
+      threadTs: session.threadTs,
+      jobId,
+      outcome: "interrupted",
+    }
+
+    const sandbox = await client.get(session.sandboxName).catch(() => null)
+    const poll = sandbox && jobId
+      ? await pollSandboxJob(client, session.sandboxName, sandboxJobFiles(jobsDir(client), jobId)).catch(() => undefined)
+      : undefined
+
+    if (!sandbox) {
+      job.outcome = "lost"
+      session.status = "error"
+      session.lastError = "Sandbox disappeared while a job was running"
+    } else if (jobId && poll?.state.status === "running") {
+      job.outcome = "reattached"
+      void followRecoveredJob(client, session, jobId, onFinished).catch((err) => {
+        log.warn("Failed to follow recovered subagent job", {
+          subagentSessionId: session.id,
+          jobId,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      })
+    } else if (jobId && poll?.state.status === "exited") {
+      Object.assign(job, await settleRecoveredJob(client, session, jobId, {
+        stdout: poll.output,
+        stderr: poll.stderr,
+        exitCode: poll.state.exitCode,
+      }))
+    } else {
+      session.status = "idle"
+    }
+
+    if (job.outcome === "lost" || job.outcome === "interrupted") {
+      if (jobId) {
+        recordJobFinish(jobId, {
+          status: "interrupted",
+          error: job.outcome === "lost" ? session.lastError : "Stopped without an exit status while the host was down",
+        })
+      }
+      session.lastJobId = jobId ?? session.lastJobId
+      session.runningJobId = undefined
+      session.updatedAt = Date.now()
+      persistSession(session)
+    }
+
+    log.info("Reconciled running subagent session", {
+      subagentSessionId: session.id,
+      sandbox: session.sandboxName,
+      jobId,
+      outcome: job.outcome,
+    })
+    recovered.push(job)
+  }
+
+  return recovered
+}
+
+/**
+ * Whether a session owns the sandbox. Errs on the side of "claimed" when the
+ * store can't be read, so the pool never takes over a thread's workspace.
+ */
+function isSandboxClaimed(sandboxName: string): boolean {
+  try {
+    return getSessionStore().getBySandboxName(sandboxName) !== undefined
+  } catch (err) {
+    log.warn("Failed to look up sandbox owner in SQLite", {
+      sandbox: sandboxName,
+      error: err instanceof Error ? err.message : String(err),
+    })
+    return true
+  }
+}
+
+/**
+ * Start the warm sandbox pool so new threads can claim a bootstrapped sandbox.
+ * Returns undefined when prewarming is disabled (size 0).
+ */
+export function startSubagentSandboxPool(size: number): SandboxPool | undefined {
+  if (size <= 0) return undefined
+
+  const client = getSandboxClient()
+  const pool = new SandboxPool(client, {
+    size,
+    prepare: (name) => ensureSandboxReady(client, name),
+    isClaimed: isSandboxClaimed,
+  })
+  initSandboxPool(pool)
+  void pool.start().catch((err) => {
+    log.warn("Failed to start warm sandbox pool", {
+      error: err instanceof Error ? err.message : String(err),
+    })
+  })
+  return pool
 }
 
 export interface RunCodingSubagentStartInput {
@@ -675,6 +1753,11 @@ export interface RunCodingSubagentMessageInput {
   threadTs?: string
   subagentSessionId?: string
   systemPrompt?: string
+  onProgress?: (progress: PiProgress) => void
+  /** Slack user the job runs for, used for usage accounting. */
+  userId?: string
+  /** Workspace-relative image paths (e.g. inputs/screenshot.png) to attach to the message. */
+  images?: string[]
 }
 
 export interface RunCodingSubagentStatusInput {
@@ -691,20 +1774,30 @@ export interface RunCodingSubagentAbortInput {
   subagentSessionId?: string
 }
 
+export interface RunCodingSubagentResetInput {
+  action: "reset"
+  channelId?: string
+  threadTs?: string
+  subagentSessionId?: string
+}
+
 export type RunCodingSubagentInput =
   | RunCodingSubagentStartInput
   | RunCodingSubagentMessageInput
   | RunCodingSubagentStatusInput
   | RunCodingSubagentAbortInput
+  | RunCodingSubagentResetInput
 
 export interface RunCodingSubagentResult {
   subagentSessionId?: string
   jobId?: string
-  status: "idle" | "running" | "completed" | "aborted" | "not_found" | "error"
+  status: "idle" | "running" | "completed" | "aborted" | "reset" | "not_found" | "error"
   created?: boolean
   content?: string
   sandboxName?: string
   generatedFiles: GeneratedFile[]
+  /** Stat summary of the job's workspace diff, uploaded as a `.patch` artifact. */
+  diffSummary?: string
 }
 
 function resolveSessionFromInput(
@@ -712,6 +1805,7 @@ function resolveSessionFromInput(
     | RunCodingSubagentMessageInput
     | RunCodingSubagentStatusInput
     | RunCodingSubagentAbortInput
+    | RunCodingSubagentResetInput
 ): SubagentSession | undefined {
   if (input.subagentSessionId) {
     return getSessionById(input.subagentSessionId)
@@ -753,23 +1847,29 @@ export async function runCodingSubagent(
     }
   }
 
-  if (input.action === "abort") {
+  if (input.action === "reset") {
     const session = resolveSessionFromInput(input)
     if (!session) {
       return { status: "not_found", generatedFiles: [] }
     }
 
-    await client.exec(session.sandboxName, ["pkill", "-f", "pi"], {
-      timeoutMs: 10000,
-      maxRetries: 1,
-      dir: workDir(client),
-    }).catch(() => {
-      // Ignore if there is nothing to kill.
-    })
+    const reset = await resetSession(client, session)
+    return {
+      subagentSessionId: session.id,
+      status: reset ? "reset" : "running",
+      sandboxName: session.sandboxName,
+      generatedFiles: [],
+      content: reset ? undefined : "The aborted job is still stopping; try the reset again shortly.",
+    }
+  }
 
-    session.runningJobId = undefined
-    session.status = "idle"
-    session.updatedAt = Date.now()
+  if (input.action === "abort") {
+    const session = resolveSessionFromInput(input)
+    if (!session) {
+      return { status: "not_found", generatedFiles: [] }
+    }
+
+    await abortSessionJob(client, session)
     persistSession(session)
 
     return {
@@ -793,6 +1893,23 @@ export async function runCodingSubagent(
     created = createdResult.created
   }
 
+  markBusy(session.id)
+  try {
+    return await runSessionMessage(client, session, input, created)
+  } finally {
+    unmarkBusy(session.id)
+  }
+}
+
+async function runSessionMessage(
+  client: SandboxClient,
+  session: SubagentSession,
+  input: RunCodingSubagentMessageInput,
+  created: boolean
+): Promise<RunCodingSubagentResult> {
+  await reapsInProgress.get(session.id)
+  reviveSandbox(session)
+
   if (session.status === "running") {
     await reconcileRunningSessionState(client, session)
   }
@@ -809,7 +1926,15 @@ export async function runCodingSubagent(
   }
 
   try {
-    const result = await sendMessageToSubagent(client, session, input.message, input.systemPrompt)
+    const result = await sendMessageToSubagent(
+      client,
+      session,
+      input.message,
+      input.systemPrompt,
+      input.onProgress,
+      input.userId,
+      input.images,
+    )
     return {
       subagentSessionId: session.id,
       jobId: result.jobId,
@@ -818,10 +1943,22 @@ export async function runCodingSubagent(
       content: result.content,
       sandboxName: session.sandboxName,
       generatedFiles: result.generatedFiles,
+      diffSummary: result.diffSummary,
     }
   } catch (err) {
-    session.status = "error"
-    session.lastError = err instanceof Error ? err.message : String(err)
+    // Left running for the next start to reattach to.
+    if (jobsDetached && isExpectedCancellationError(err)) throw err
+    if (isExpectedCancellationError(err)) {
+      session.status = "idle"
+    } else {
+      session.status = "error"
+      session.lastError = err instanceof Error ? err.message : String(err)
+    }
+    if (session.runningJobId) {
+      recordJobFinish(session.runningJobId, session.status === "idle"
+        ? { status: "aborted" }
+        : { status: "failed", error: session.lastError })
+    }
     session.runningJobId = undefined
     session.updatedAt = Date.now()
     persistSession(session)
@@ -53,6 +53,22 @@ describe("config shape", () => {
     assert.ok(typeof config.debounceMs === "number")
   })
 
+  it("accepts the local SANDBOX_BACKEND", async () => {
+    const previous = process.env.SANDBOX_BACKEND
+    process.env.SANDBOX_BACKEND = "local"
+
+    try {
+      const { config: localConfig } = await import(`./config.js?local_backend=${Date.now()}`)
+      assert.strictEqual(localConfig.sandboxBackend, "local")
+    } finally {
+      if (previous === undefined) {
+        delete process.env.SANDBOX_BACKEND
+      } else {
+        process.env.SANDBOX_BACKEND = previous
+      }
+    }
+  })
+
   it("fails fast for invalid SANDBOX_BACKEND values", async () => {
     const previous = process.env.SANDBOX_BACKEND
     process.env.SANDBOX_BACKEND = "invalid"
@@ -1,5 +1,5 @@
 import "dotenv/config"
-import { join } from "node:path"
+import { dirname, join } from "node:path"
 
 export interface JanebotConfig {
   // Pi settings
@@ -11,14 +11,36 @@ export interface JanebotConfig {
   debounceMs: number
   maxResponseLength: number
   subagentPrewarmCount: number
+  // Idle sandbox lifecycle (0 = never)
+  sandboxIdleStopMs: number
+  sandboxIdleDeleteMs: number
+  // Turn quotas (0 = unlimited)
+  quotaUserConcurrent: number
+  quotaUserTurnsPerHour: number
+  quotaChannelConcurrent: number
+  quotaChannelTurnsPerHour: number
+  // How long shutdown waits for in-flight turns before aborting them
+  shutdownDrainMs: number
   sessionDbPath: string
+  orchestratorSessionDir: string
+
+  // Admin HTTP API (port 0 = disabled)
+  adminHttpPort: number
+  adminHttpHost: string
+  adminApiToken: string | undefined
+
+  // Emoji names that act as thread commands when used as reactions (empty = disabled)
+  reactionRetryEmoji: string[]
+  reactionAbortEmoji: string[]
+  reactionExplainEmoji: string[]
 
   // Authorization (empty arrays = allow all)
   allowedUserIds: string[]
   allowedChannelIds: string[]
 
-  // Sandbox backend: "docker" (local Docker, default) or "sprites" (remote VMs)
-  sandboxBackend: "sprites" | "docker"
+  // Sandbox backend: "docker" (local Docker, default), "sprites" (remote VMs)
+  // or "local" (host processes, for development and CI)
+  sandboxBackend: "sprites" | "docker" | "local"
 
   // Remote sandbox token (required when sandboxBackend is "sprites")
   spritesToken: string | undefined
@@ -36,13 +58,16 @@ function parseList(value: string | undefined): string[] {
     .filter(Boolean)
 }
 
-function parseSandboxBackend(): "sprites" | "docker" {
+function parseSandboxBackend(): "sprites" | "docker" | "local" {
   const value = (process.env.SANDBOX_BACKEND ?? "").trim().toLowerCase()
   if (value === "" || value === "docker") return "docker"
   if (value === "sprites") return "sprites"
-  throw new Error(`Invalid SANDBOX_BACKEND: ${value}. Expected \"docker\" or \"sprites\".`)
+  if (value === "local") return "local"
+  throw new Error(`Invalid SANDBOX_BACKEND: ${value}. Expected \"docker\", \"sprites\" or \"local\".`)
 }
 
+const sessionDbPath = process.env.SESSION_DB_PATH || join(process.env.WORKSPACE_DIR ?? process.cwd(), ".janebot", "state.sqlite")
+
 export const config: JanebotConfig = {
   workspaceDir: process.env.WORKSPACE_DIR ?? process.cwd(),
   piModel: process.env.PI_MODEL || undefined,
@@ -50,7 +75,21 @@ export const config: JanebotConfig = {
   debounceMs: parseInt(process.env.DEBOUNCE_MS ?? "1500", 10),
   maxResponseLength: parseInt(process.env.MAX_RESPONSE_LENGTH ?? "10000", 10),
   subagentPrewarmCount: parseInt(process.env.SUBAGENT_PREWARM_COUNT ?? "1", 10),
-  sessionDbPath: process.env.SESSION_DB_PATH || join(process.env.WORKSPACE_DIR ?? process.cwd(), ".janebot", "state.sqlite"),
+  sandboxIdleStopMs: parseInt(process.env.SANDBOX_IDLE_STOP_MS ?? "3600000", 10),
+  sandboxIdleDeleteMs: parseInt(process.env.SANDBOX_IDLE_DELETE_MS ?? "604800000", 10),
+  quotaUserConcurrent: parseInt(process.env.QUOTA_USER_CONCURRENT ?? "2", 10),
+  quotaUserTurnsPerHour: parseInt(process.env.QUOTA_USER_TURNS_PER_HOUR ?? "30", 10),
+  quotaChannelConcurrent: parseInt(process.env.QUOTA_CHANNEL_CONCURRENT ?? "5", 10),
+  quotaChannelTurnsPerHour: parseInt(process.env.QUOTA_CHANNEL_TURNS_PER_HOUR ?? "120", 10),
+  shutdownDrainMs: parseInt(process.env.SHUTDOWN_DRAIN_MS ?? "90000", 10),
+  sessionDbPath,
+  orchestratorSessionDir: process.env.ORCHESTRATOR_SESSION_DIR || join(dirname(sessionDbPath), "orchestrator-sessions"),
+  adminHttpPort: parseInt(process.env.ADMIN_HTTP_PORT ?? "0", 10),
+  adminHttpHost: process.env.ADMIN_HTTP_HOST || "127.0.0.1",
+  adminApiToken: process.env.ADMIN_API_TOKEN || undefined,
+  reactionRetryEmoji: parseList(process.env.REACTION_RETRY_EMOJI ?? "arrows_counterclockwise,repeat"),
+  reactionAbortEmoji: parseList(process.env.REACTION_ABORT_EMOJI ?? "octagonal_sign"),
+  reactionExplainEmoji: parseList(process.env.REACTION_EXPLAIN_EMOJI ?? "question"),
   allowedUserIds: parseList(process.env.ALLOWED_USER_IDS),
   allowedChannelIds: parseList(process.env.ALLOWED_CHANNEL_IDS),
   sandboxBackend: parseSandboxBackend(),
@@ -3,20 +3,43 @@
  *
  * Uses local Docker daemon to run containers.
  *
- * Network policy is a no-op — containers have full network access.
+ * Network policy is enforced by attaching containers to an internal Docker
+ * network with no external route, and pointing HTTP(S)_PROXY at a host-side
+ * EgressProxy that filters by domain. Set DOCKER_NETWORK_POLICY=off to give
+ * containers unrestricted network access instead.
  */
 
-import { spawn } from "node:child_process"
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process"
+import { posix } from "node:path"
+import type { Readable } from "node:stream"
+import { EgressProxy } from "./egress-proxy.js"
 import * as log from "./logger.js"
+import { sandboxExecRetries } from "./metrics.js"
 import type {
   SandboxClient,
+  SandboxEnsureResult,
   SandboxInfo,
   SandboxExecOptions,
   SandboxExecResult,
+  SandboxFileTransferOptions,
   SandboxNetworkPolicyRule,
 } from "./sandbox.js"
+import {
+  assertWithinTransferLimit,
+  createVerifyingStream,
+  readStreamToBuffer,
+  SANDBOX_FILE_MAX_BYTES,
+  statSandboxFile,
+  verifySandboxUpload,
+} from "./sandbox-files.js"
+import { createTarFile, TarFileExtractor } from "./tar.js"
 
 const DOCKER_IMAGE = process.env.DOCKER_SANDBOX_IMAGE ?? "ghcr.io/buildkite/janebot-sandbox:latest"
+const DOCKER_NETWORK = process.env.DOCKER_SANDBOX_NETWORK ?? "jane-sandbox-egress"
+const ENFORCE_NETWORK_POLICY = (process.env.DOCKER_NETWORK_POLICY ?? "").trim().toLowerCase() !== "off"
+const DOCKER_CP_TIMEOUT_MS = 600000
+const DOCKER_COMMIT_TIMEOUT_MS = 600000
+const CHECKPOINT_REPOSITORY = "jane-checkpoint"
 
 export class DockerSandboxClient implements SandboxClient {
   readonly piBin = "/usr/local/bin/pi"
@@ -24,6 +47,9 @@ export class DockerSandboxClient implements SandboxClient {
   readonly defaultPath = "/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin"
   readonly homeDir = "/root"
 
+  private egress: Promise<{ proxy: EgressProxy; proxyUrl: string }> | undefined
+  private proxyUrl: string | undefined
+
   private async docker(
     args: string[],
     options?: { timeoutMs?: number }
@@ -43,8 +69,10 @@ export class DockerSandboxClient implements SandboxClient {
         }
       }, timeoutMs)
 
-      child.stdout.on("data", (d: Buffer) => { stdout += d.toString() })
-      child.stderr.on("data", (d: Buffer) => { stderr += d.toString() })
+      child.stdout.setEncoding("utf8")
+      child.stderr.setEncoding("utf8")
+      child.stdout.on("data", (chunk: string) => { stdout += chunk })
+      child.stderr.on("data", (chunk: string) => { stderr += chunk })
 
       child.on("error", (err) => {
         if (!resolved) {
@@ -80,8 +108,19 @@ export class DockerSandboxClient implements SandboxClient {
 
   async create(name: string): Promise<SandboxInfo> {
     log.info("Creating Docker container", { name })
+    return this.run(name, DOCKER_IMAGE)
+  }
+
+  private async run(name: string, image: string): Promise<SandboxInfo> {
+    const networkArgs: string[] = []
+    if (ENFORCE_NETWORK_POLICY) {
+      await this.ensureEgress()
+      networkArgs.push("--network", DOCKER_NETWORK)
+    }
+    // --init gives the container a PID 1 that reaps orphans; detached jobs that
+    // exit or are killed would otherwise linger as zombies and still look alive.
     const result = await this.docker(
-      ["run", "-d", "--name", name, DOCKER_IMAGE, "sleep", "infinity"],
+      ["run", "-d", "--init", "--name", name, ...networkArgs, image, "sleep", "infinity"],
       { timeoutMs: 60000 }
     )
     if (result.exitCode !== 0) {
@@ -90,9 +129,103 @@ export class DockerSandboxClient implements SandboxClient {
     return { id: name, name, status: "running" }
   }
 
+  /**
+   * Commit the container's filesystem to a `jane-checkpoint` image and return
+   * the image reference. The image is removed along with the container
+   * created from it, or straight away if that container can't be started.
+   */
+  async checkpoint(name: string): Promise<string> {
+    const image = `${CHECKPOINT_REPOSITORY}:${name}-${Date.now().toString(36)}`
+    log.info("Checkpointing Docker container", { name, image })
+    const result = await this.docker(
+      ["commit", "--change", `LABEL jane.checkpoint.source=${name}`, name, image],
+      { timeoutMs: DOCKER_COMMIT_TIMEOUT_MS }
+    )
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to checkpoint Docker container ${name}: ${result.stderr}`)
+    }
+    return image
+  }
+
+  async createFromCheckpoint(name: string, source: string, checkpointId: string): Promise<SandboxInfo> {
+    log.info("Creating Docker container from checkpoint", { name, source, image: checkpointId })
+    try {
+      return await this.run(name, checkpointId)
+    } catch (err) {
+      await this.removeCheckpointImage(checkpointId)
+      throw err
+    }
+  }
+
   async delete(name: string): Promise<void> {
     log.info("Deleting Docker container", { name })
+    const inspected = await this.docker(["inspect", "--format", "{{.Config.Image}}", name], { timeoutMs: 10000 })
     await this.docker(["rm", "-f", name], { timeoutMs: 10000 })
+    const image = inspected.exitCode === 0 ? inspected.stdout.trim() : ""
+    if (image.startsWith(`${CHECKPOINT_REPOSITORY}:`)) {
+      await this.removeCheckpointImage(image)
+    }
+    if (this.egress) {
+      const { proxy } = await this.egress
+      proxy.removeSandbox(name)
+    }
+  }
+
+  async rename(name: string, newName: string): Promise<void> {
+    log.info("Renaming Docker container", { name, newName })
+    const result = await this.docker(["rename", name, newName], { timeoutMs: 10000 })
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to rename Docker container ${name} to ${newName}: ${result.stderr}`)
+    }
+    // The egress policy is registered by name; setNetworkPolicy re-registers it.
+    if (this.egress) {
+      const { proxy } = await this.egress
+      proxy.removeSandbox(name)
+    }
+  }
+
+  private async removeCheckpointImage(image: string): Promise<void> {
+    try {
+      const result = await this.docker(["rmi", image], { timeoutMs: 30000 })
+      if (result.exitCode !== 0) throw new Error(result.stderr.trim())
+    } catch (err) {
+      // Still in use, e.g. as the base of a checkpoint taken from a fork.
+      log.warn("Failed to remove Docker checkpoint image", {
+        image,
+        error: err instanceof Error ? err.message : String(err),
+      })
+    }
+  }
+
+  async stop(name: string): Promise<void> {
+    log.info("Stopping Docker container", { name })
+    const result = await this.docker(["stop", "--time", "10", name], { timeoutMs: 30000 })
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to stop Docker container ${name}: ${result.stderr}`)
+    }
+  }
+
+  async start(name: string): Promise<void> {
+    log.info("Starting Docker container", { name })
+    const result = await this.docker(["start", name], { timeoutMs: 30000 })
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to start Docker container ${name}: ${result.stderr}`)
+    }
+  }
+
+  async ensureRunning(name: string): Promise<SandboxEnsureResult> {
+    const existing = await this.get(name)
+    if (!existing) {
+      await this.create(name)
+      return "created"
+    }
+    if (existing.status !== "running") {
+      await this.start(name)
+      // Callers re-bootstrap on "started", which also re-registers the egress policy
+      // for whatever address Docker hands the restarted container.
+      return "started"
+    }
+    return "running"
   }
 
   async exec(
@@ -108,9 +241,10 @@ export class DockerSandboxClient implements SandboxClient {
         return await this.execOnce(name, command, options)
       } catch (err) {
         lastError = err instanceof Error ? err : new Error(String(err))
-        if (attempt >= maxRetries) throw lastError
+        if (attempt >= maxRetries || options.signal?.aborted) throw lastError
         const delayMs = Math.pow(2, attempt - 1) * 1000
         log.info("Retrying Docker exec", { name, attempt, maxRetries, delayMs })
+        sandboxExecRetries.inc({ backend: "docker" })
         await new Promise((r) => setTimeout(r, delayMs))
       }
     }
@@ -131,6 +265,12 @@ export class DockerSandboxClient implements SandboxClient {
     if (options.dir) {
       args.push("-w", options.dir)
     }
+    if (this.proxyUrl) {
+      for (const key of ["HTTP_PROXY", "HTTPS_PROXY", "http_proxy", "https_proxy"]) {
+        args.push("-e", `${key}=${this.proxyUrl}`)
+      }
+      args.push("-e", "NO_PROXY=localhost,127.0.0.1", "-e", "no_proxy=localhost,127.0.0.1")
+    }
     if (options.env) {
       for (const [key, value] of Object.entries(options.env)) {
         args.push("-e", `${key}=${value}`)
@@ -141,6 +281,11 @@ export class DockerSandboxClient implements SandboxClient {
 
     const timeoutMs = options.timeoutMs ?? 30000
     return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(options.signal.reason)
+        return
+      }
+
       const child = spawn("docker", args, { stdio: "pipe" })
       let stdout = ""
       let stderr = ""
@@ -149,18 +294,37 @@ export class DockerSandboxClient implements SandboxClient {
       const timeout = setTimeout(() => {
         if (!resolved) {
           resolved = true
+          options.signal?.removeEventListener("abort", onAbort)
           child.kill("SIGTERM")
           reject(new Error(`Docker exec timed out after ${timeoutMs}ms`))
         }
       }, timeoutMs)
 
-      child.stdout.on("data", (d: Buffer) => { stdout += d.toString() })
-      child.stderr.on("data", (d: Buffer) => { stderr += d.toString() })
+      const onAbort = () => {
+        if (!resolved) {
+          resolved = true
+          clearTimeout(timeout)
+          child.kill("SIGTERM")
+          reject(options.signal?.reason)
+        }
+      }
+      options.signal?.addEventListener("abort", onAbort, { once: true })
+
+      // Decode as a stream so a multi-byte character split across chunks stays
+      // intact; the detached job poller counts output offsets in bytes.
+      child.stdout.setEncoding("utf8")
+      child.stderr.setEncoding("utf8")
+      child.stdout.on("data", (chunk: string) => {
+        stdout += chunk
+        options.onStdout?.(chunk)
+      })
+      child.stderr.on("data", (chunk: string) => { stderr += chunk })
 
       child.on("error", (err) => {
         if (!resolved) {
           resolved = true
           clearTimeout(timeout)
+          options.signal?.removeEventListener("abort", onAbort)
           reject(err)
         }
       })
@@ -169,6 +333,7 @@ export class DockerSandboxClient implements SandboxClient {
         if (!resolved) {
           resolved = true
           clearTimeout(timeout)
+          options.signal?.removeEventListener("abort", onAbort)
           resolve({ stdout, stderr, exitCode: code ?? 1 })
         }
       })
@@ -180,12 +345,81 @@ export class DockerSandboxClient implements SandboxClient {
     })
   }
 
-  async downloadFile(name: string, path: string): Promise<Buffer> {
-    const result = await this.exec(name, ["base64", path])
-    if (result.exitCode !== 0) {
-      throw new Error(`Failed to download file ${path}: ${result.stderr}`)
+  /**
+   * Run `docker cp`, killing it after DOCKER_CP_TIMEOUT_MS. `finished`
+   * rejects with docker's stderr if it exits non-zero.
+   */
+  private dockerCp(args: string[]): { child: ChildProcessWithoutNullStreams; finished: Promise<void> } {
+    const child = spawn("docker", ["cp", ...args], { stdio: "pipe" })
+    const finished = new Promise<void>((resolve, reject) => {
+      let stderr = ""
+      const timeout = setTimeout(() => {
+        child.kill("SIGTERM")
+        reject(new Error(`docker cp timed out after ${DOCKER_CP_TIMEOUT_MS}ms`))
+      }, DOCKER_CP_TIMEOUT_MS)
+      child.stderr.on("data", (d: Buffer) => { stderr += d.toString() })
+      child.on("error", (err) => {
+        clearTimeout(timeout)
+        reject(err)
+      })
+      child.on("close", (code) => {
+        clearTimeout(timeout)
+        if (code === 0) resolve()
+        else reject(new Error(`docker cp failed: ${stderr.trim() || `exit code ${code}`}`))
+      })
+    })
+    return { child, finished }
+  }
+
+  async downloadFileStream(
+    name: string,
+    path: string,
+    options: SandboxFileTransferOptions = {}
+  ): Promise<Readable> {
+    const maxBytes = options.maxBytes ?? SANDBOX_FILE_MAX_BYTES
+    const expected = await statSandboxFile(this, name, path)
+    assertWithinTransferLimit(path, expected.size, maxBytes)
+
+    const { child, finished } = this.dockerCp([`${name}:${path}`, "-"])
+    const verifier = createVerifyingStream(path, expected, maxBytes)
+    const extractor = new TarFileExtractor()
+    extractor.on("error", (err) => verifier.destroy(err))
+    verifier.on("close", () => {
+      if (child.exitCode === null) child.kill("SIGTERM")
+    })
+    finished.catch((err: Error) => verifier.destroy(err))
+    child.stdout.pipe(extractor).pipe(verifier)
+    return verifier
+  }
+
+  async downloadFile(name: string, path: string, options?: SandboxFileTransferOptions): Promise<Buffer> {
+    try {
+      return await readStreamToBuffer(await this.downloadFileStream(name, path, options))
+    } catch (err) {
+      throw new Error(`Failed to download file ${path}: ${err instanceof Error ? err.message : String(err)}`)
     }
-    return Buffer.from(result.stdout.trim(), "base64")
+  }
+
+  async uploadFile(
+    name: string,
+    path: string,
+    data: Buffer,
+    options: SandboxFileTransferOptions = {}
+  ): Promise<void> {
+    assertWithinTransferLimit(path, data.length, options.maxBytes ?? SANDBOX_FILE_MAX_BYTES)
+    const dir = posix.dirname(path)
+    const mkdir = await this.exec(name, ["mkdir", "-p", dir])
+    if (mkdir.exitCode !== 0) {
+      throw new Error(`Failed to upload file ${path}: ${mkdir.stderr}`)
+    }
+
+    const { child, finished } = this.dockerCp(["-", `${name}:${dir}`])
+    child.stdin.on("error", () => {})
+    child.stdin.end(createTarFile(posix.basename(path), data))
+    await finished.catch((err: Error) => {
+      throw new Error(`Failed to upload file ${path}: ${err.message}`)
+    })
+    await verifySandboxUpload(this, name, path, data)
   }
 
   async list(prefix?: string): Promise<SandboxInfo[]> {
@@ -209,9 +443,96 @@ export class DockerSandboxClient implements SandboxClient {
   }
 
   async setNetworkPolicy(
-    _name: string,
-    _rules: SandboxNetworkPolicyRule[]
+    name: string,
+    rules: SandboxNetworkPolicyRule[]
   ): Promise<void> {
-    // No-op — Docker containers have full network access
+    if (!ENFORCE_NETWORK_POLICY) {
+      log.debug("Docker network policy disabled; container has full network access", { name })
+      return
+    }
+
+    const { proxy } = await this.ensureEgress()
+    await this.attachToEgressNetwork(name)
+
+    const result = await this.docker(
+      ["inspect", "--format", `{{(index .NetworkSettings.Networks "${DOCKER_NETWORK}").IPAddress}}`, name],
+      { timeoutMs: 10000 }
+    )
+    const address = result.stdout.trim()
+    if (result.exitCode !== 0 || !address) {
+      throw new Error(`Failed to resolve ${DOCKER_NETWORK} address for ${name}: ${result.stderr}`)
+    }
+
+    proxy.setPolicy(address, name, rules)
+    log.info("Setting network policy", { name, address, ruleCount: rules.length })
+  }
+
+  /**
+   * Create the internal sandbox network and start the egress proxy on its
+   * gateway, once per process.
+   */
+  private ensureEgress(): Promise<{ proxy: EgressProxy; proxyUrl: string }> {
+    if (!this.egress) {
+      this.egress = this.startEgress().catch((err) => {
+        this.egress = undefined
+        throw err
+      })
+    }
+    return this.egress
+  }
+
+  private async startEgress(): Promise<{ proxy: EgressProxy; proxyUrl: string }> {
+    const gatewayFormat = "{{range .IPAM.Config}}{{.Gateway}}{{end}}"
+    let inspect = await this.docker(["network", "inspect", "--format", gatewayFormat, DOCKER_NETWORK])
+    if (inspect.exitCode !== 0) {
+      log.info("Creating internal Docker network for sandboxes", { network: DOCKER_NETWORK })
+      const created = await this.docker(["network", "create", "--internal", DOCKER_NETWORK])
+      if (created.exitCode !== 0) {
+        throw new Error(`Failed to create Docker network ${DOCKER_NETWORK}: ${created.stderr}`)
+      }
+      inspect = await this.docker(["network", "inspect", "--format", gatewayFormat, DOCKER_NETWORK])
+    }
+
+    const gateway = inspect.stdout.trim()
+    if (inspect.exitCode !== 0 || !gateway) {
+      throw new Error(`Failed to resolve gateway for Docker network ${DOCKER_NETWORK}: ${inspect.stderr}`)
+    }
+
+    const proxy = new EgressProxy()
+    const port = parseInt(process.env.DOCKER_EGRESS_PROXY_PORT ?? "0", 10) || 0
+    const address = await proxy.listen(gateway, port)
+    this.proxyUrl = `http://${gateway}:${address.port}`
+    return { proxy, proxyUrl: this.proxyUrl }
+  }
+
+  /**
+   * Move a container onto the internal network, detaching it from any network
+   * with an external route (containers created before enforcement was enabled).
+   */
+  private async attachToEgressNetwork(name: string): Promise<void> {
+    const result = await this.docker(
+      ["inspect", "--format", "{{range $net, $cfg := .NetworkSettings.Networks}}{{$net}}\n{{end}}", name],
+      { timeoutMs: 10000 }
+    )
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to inspect networks for ${name}: ${result.stderr}`)
+    }
+
+    const networks = result.stdout.split("\n").map((line) => line.trim()).filter(Boolean)
+    if (!networks.includes(DOCKER_NETWORK)) {
+      const connected = await this.docker(["network", "connect", DOCKER_NETWORK, name], { timeoutMs: 10000 })
+      if (connected.exitCode !== 0) {
+        throw new Error(`Failed to connect ${name} to ${DOCKER_NETWORK}: ${connected.stderr}`)
+      }
+    }
+
+    for (const network of networks) {
+      if (network === DOCKER_NETWORK) continue
+      log.info("Detaching sandbox from unrestricted Docker network", { name, network })
+      const disconnected = await this.docker(["network", "disconnect", "--force", network, name], { timeoutMs: 10000 })
+      if (disconnected.exitCode !== 0) {
+        throw new Error(`Failed to disconnect ${name} from ${network}: ${disconnected.stderr}`)
+      }
+    }
   }
 }
@@ -0,0 +1,68 @@
+import assert from "node:assert"
+import { request } from "node:http"
+import { afterEach, describe, it } from "node:test"
+import { EgressProxy, evaluateNetworkPolicy, matchesDomain } from "./egress-proxy.js"
+
+describe("matchesDomain", () => {
+  it("matches exact domains case-insensitively", () => {
+    assert.strictEqual(matchesDomain("github.com", "GitHub.com"), true)
+    assert.strictEqual(matchesDomain("github.com", "api.github.com"), false)
+  })
+
+  it("matches wildcard subdomains but not the apex or lookalikes", () => {
+    assert.strictEqual(matchesDomain("*.npmjs.org", "registry.npmjs.org"), true)
+    assert.strictEqual(matchesDomain("*.npmjs.org", "a.b.npmjs.org"), true)
+    assert.strictEqual(matchesDomain("*.npmjs.org", "npmjs.org"), false)
+    assert.strictEqual(matchesDomain("*.npmjs.org", "evilnpmjs.org"), false)
+  })
+})
+
+describe("evaluateNetworkPolicy", () => {
+  it("denies hosts that match no rule", () => {
+    assert.strictEqual(evaluateNetworkPolicy([{ action: "allow", domain: "github.com" }], "example.com"), "deny")
+  })
+
+  it("lets deny rules override allow rules", () => {
+    const rules = [
+      { action: "allow" as const, domain: "*.github.com" },
+      { action: "deny" as const, domain: "gist.github.com" },
+    ]
+    assert.strictEqual(evaluateNetworkPolicy(rules, "api.github.com"), "allow")
+    assert.strictEqual(evaluateNetworkPolicy(rules, "gist.github.com"), "deny")
+  })
+})
+
+describe("EgressProxy", () => {
+  let proxy: EgressProxy | undefined
+
+  afterEach(async () => {
+    await proxy?.close()
+    proxy = undefined
+  })
+
+  function connectThrough(port: number, authority: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const req = request({ host: "127.0.0.1", port, method: "CONNECT", path: authority })
+      req.on("connect", (res, socket) => {
+        socket.destroy()
+        resolve(res.statusCode ?? 0)
+      })
+      req.on("error", reject)
+      req.end()
+    })
+  }
+
+  it("rejects CONNECT requests from unknown or disallowed sandboxes", async () => {
+    proxy = new EgressProxy()
+    const { port } = await proxy.listen("127.0.0.1")
+
+    assert.strictEqual(await connectThrough(port, "example.com:443"), 403)
+
+    proxy.setPolicy("127.0.0.1", "jane-test", [{ action: "allow", domain: "github.com" }])
+    assert.strictEqual(await connectThrough(port, "example.com:443"), 403)
+
+    proxy.removeSandbox("jane-test")
+    proxy.setPolicy("127.0.0.1", "jane-test", [{ action: "allow", domain: "localhost" }])
+    assert.strictEqual(await connectThrough(port, `localhost:${port}`), 200)
+  })
+})
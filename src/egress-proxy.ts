@@ -0,0 +1,176 @@
+/**
+ * Host-side filtering HTTP(S) proxy for sandbox egress.
+ *
+ * Sandboxes that can't reach the internet directly (e.g. Docker containers on
+ * an internal network) are pointed at this proxy via HTTP(S)_PROXY. Each
+ * request is attributed to a sandbox by its source address and checked against
+ * that sandbox's SandboxNetworkPolicyRule[] before a connection is opened.
+ */
+
+import { createServer, request as httpRequest, type IncomingMessage, type Server } from "node:http"
+import { connect, type AddressInfo, type Socket } from "node:net"
+import * as log from "./logger.js"
+import type { SandboxNetworkPolicyRule } from "./sandbox.js"
+
+interface RegisteredSandbox {
+  name: string
+  rules: SandboxNetworkPolicyRule[]
+}
+
+/**
+ * Match a hostname against a policy domain.
+ * `*.example.com` matches subdomains of example.com but not example.com itself.
+ */
+export function matchesDomain(pattern: string, host: string): boolean {
+  const normalizedPattern = pattern.trim().toLowerCase().replace(/\.$/, "")
+  const normalizedHost = host.trim().toLowerCase().replace(/\.$/, "")
+  if (normalizedPattern === "*") return true
+  if (normalizedPattern.startsWith("*.")) {
+    return normalizedHost.endsWith(normalizedPattern.slice(1))
+  }
+  return normalizedHost === normalizedPattern
+}
+
+/**
+ * Decide whether a host is reachable under a policy.
+ * Deny rules win over allow rules; hosts matching no rule are denied.
+ */
+export function evaluateNetworkPolicy(rules: SandboxNetworkPolicyRule[], host: string): "allow" | "deny" {
+  let allowed = false
+  for (const rule of rules) {
+    if (!matchesDomain(rule.domain, host)) continue
+    if (rule.action === "deny") return "deny"
+    allowed = true
+  }
+  return allowed ? "allow" : "deny"
+}
+
+function normalizeAddress(address: string | undefined): string {
+  if (!address) return ""
+  return address.startsWith("::ffff:") ? address.slice("::ffff:".length) : address
+}
+
+function parseAuthority(authority: string, defaultPort: number): { host: string; port: number } | null {
+  const match = /^\[?([^\]]+?)\]?(?::(\d+))?$/.exec(authority.trim())
+  if (!match?.[1]) return null
+  const port = match[2] ? parseInt(match[2], 10) : defaultPort
+  if (!Number.isFinite(port) || port <= 0 || port > 65535) return null
+  return { host: match[1], port }
+}
+
+export class EgressProxy {
+  private readonly server: Server
+  private readonly sandboxesByAddress = new Map<string, RegisteredSandbox>()
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      const target = this.resolveHttpTarget(req)
+      if (!target) {
+        res.writeHead(400).end("Bad proxy request\n")
+        return
+      }
+      if (!this.authorize(req.socket, target.hostname)) {
+        res.writeHead(403).end(`Egress to ${target.hostname} is not allowed\n`)
+        return
+      }
+
+      const headers = { ...req.headers }
+      delete headers["proxy-authorization"]
+      delete headers["proxy-connection"]
+
+      const upstream = httpRequest(target, { method: req.method, headers }, (upstreamRes) => {
+        res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.headers)
+        upstreamRes.pipe(res)
+      })
+      upstream.on("error", (err) => {
+        log.debug("Egress proxy upstream request failed", { host: target.hostname, error: err.message })
+        if (!res.headersSent) res.writeHead(502)
+        res.end()
+      })
+      req.pipe(upstream)
+    })
+
+    this.server.on("connect", (req: IncomingMessage, clientSocket: Socket, head: Buffer) => {
+      const target = parseAuthority(req.url ?? "", 443)
+      if (!target) {
+        clientSocket.end("HTTP/1.1 400 Bad Request\r\n\r\n")
+        return
+      }
+      if (!this.authorize(clientSocket, target.host)) {
+        clientSocket.end("HTTP/1.1 403 Forbidden\r\n\r\n")
+        return
+      }
+
+      const upstream = connect(target.port, target.host, () => {
+        clientSocket.write("HTTP/1.1 200 Connection Established\r\n\r\n")
+        if (head.length > 0) upstream.write(head)
+        upstream.pipe(clientSocket)
+        clientSocket.pipe(upstream)
+      })
+      upstream.on("error", (err) => {
+        log.debug("Egress proxy tunnel failed", { host: target.host, error: err.message })
+        clientSocket.end("HTTP/1.1 502 Bad Gateway\r\n\r\n")
+      })
+      clientSocket.on("error", () => upstream.destroy())
+    })
+  }
+
+  async listen(host: string, port = 0): Promise<AddressInfo> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject)
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject)
+        resolve()
+      })
+    })
+    const address = this.server.address() as AddressInfo
+    log.info("Sandbox egress proxy listening", { host: address.address, port: address.port })
+    return address
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()))
+  }
+
+  /**
+   * Register (or replace) the policy for a sandbox reachable at `address`.
+   */
+  setPolicy(address: string, sandboxName: string, rules: SandboxNetworkPolicyRule[]): void {
+    for (const [existingAddress, sandbox] of this.sandboxesByAddress) {
+      if (sandbox.name === sandboxName && existingAddress !== address) {
+        this.sandboxesByAddress.delete(existingAddress)
+      }
+    }
+    this.sandboxesByAddress.set(normalizeAddress(address), { name: sandboxName, rules: [...rules] })
+  }
+
+  removeSandbox(sandboxName: string): void {
+    for (const [address, sandbox] of this.sandboxesByAddress) {
+      if (sandbox.name === sandboxName) this.sandboxesByAddress.delete(address)
+    }
+  }
+
+  private resolveHttpTarget(req: IncomingMessage): URL | null {
+    try {
+      const url = new URL(req.url ?? "")
+      return url.protocol === "http:" ? url : null
+    } catch {
+      return null
+    }
+  }
+
+  private authorize(socket: Socket, host: string): boolean {
+    const address = normalizeAddress(socket.remoteAddress)
+    const sandbox = this.sandboxesByAddress.get(address)
+    if (sandbox && evaluateNetworkPolicy(sandbox.rules, host) === "allow") {
+      return true
+    }
+
+    log.warn("Denied sandbox egress", {
+      sandbox: sandbox?.name ?? "unknown",
+      address,
+      domain: host,
+    })
+    return false
+  }
+}
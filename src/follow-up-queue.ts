@@ -1,3 +1,5 @@
+import { followUpQueueDepth } from "./metrics.js"
+
 export interface QueuedFollowUp {
   type: "mention" | "dm"
   userId: string
@@ -19,6 +21,12 @@ export interface FollowUpBatchSummary {
 
 const queuedByThread = new Map<string, QueuedFollowUp[]>()
 
+function updateQueueDepth(): void {
+  let depth = 0
+  for (const queue of queuedByThread.values()) depth += queue.length
+  followUpQueueDepth.set(depth)
+}
+
 const STEERING_PATTERNS = [
   /^actually[\s,].*(?:instead|don't|do not|stop|cancel|ignore|scratch|wait|no)\b/i,
   /^instead[\s,]/i,
@@ -44,6 +52,7 @@ export function enqueueFollowUp(threadKey: string, message: QueuedFollowUp): voi
 
   queue.push(message)
   queuedByThread.set(threadKey, queue)
+  updateQueueDepth()
 }
 
 export function drainFollowUpBatch(threadKey: string): QueuedFollowUp[] {
@@ -53,6 +62,7 @@ export function drainFollowUpBatch(threadKey: string): QueuedFollowUp[] {
   }
 
   queuedByThread.delete(threadKey)
+  updateQueueDepth()
   return [...queue]
 }
 
@@ -62,6 +72,7 @@ export function getFollowUpCount(threadKey: string): number {
 
 export function clearFollowUpQueue(threadKey: string): void {
   queuedByThread.delete(threadKey)
+  updateQueueDepth()
 }
 
 export function formatFollowUpPrompt(batch: QueuedFollowUp[]): string {
@@ -1,5 +1,5 @@
 import "dotenv/config"
-import { App, LogLevel } from "@slack/bolt"
+import { App, LogLevel, type BlockButtonAction, type types } from "@slack/bolt"
 
 import { config, isUserAllowed, isChannelAllowed } from "./config.js"
 import { debounce, cancel } from "./debouncer.js"
@@ -12,22 +12,76 @@ import {
 } from "./follow-up-queue.js"
 import { markdownToSlack } from "md-to-slack"
 import * as log from "./logger.js"
-import { getLastSeenEventTs } from "./orchestrator.js"
+import { abortOrchestratorTurns, getLastSeenEventTs, hasOrchestratorSession } from "./orchestrator.js"
 import { buildInitialPendingTurn, type PendingTurn } from "./pending-turn.js"
 import type { GeneratedFile } from "./pi-output.js"
 import { initSandboxClient, getSandboxClient } from "./sandbox.js"
-import { initSessionStore } from "./session-store.js"
+import { closeSessionStore, getSessionStore, initSessionStore } from "./session-store.js"
+import {
+  detachRunningJobs,
+  reapIdleSandboxes,
+  reconcileRunningSessions,
+  startSubagentSandboxPool,
+  uploadSubagentInputs,
+  type RecoveredJob,
+} from "./coding-subagent.js"
+import { minimumIdleMs, startSandboxReaper, type SandboxIdlePolicy } from "./sandbox-reaper.js"
+import { formatSandboxPoolStatus, getSandboxPool } from "./sandbox-pool.js"
 import { SpritesClient } from "./sprites.js"
 import { DockerSandboxClient } from "./docker-sandbox.js"
+import { LocalSandboxClient } from "./local-sandbox.js"
 import { cleanSlackMessage, formatErrorForUser, splitIntoChunks } from "./helpers.js"
-import { extractControlCommand, hasSoulPrompt, runControlCommand, runThreadTurn } from "./thread-runtime.js"
+import { abortThreadJob, extractControlCommand, hasSoulPrompt, runControlCommand, runThreadTurn } from "./thread-runtime.js"
 import { formatThreadHistory, type ThreadHistoryMessage } from "./thread-history.js"
 import { isExpectedCancellationError } from "./cancellation.js"
+import { drainOrAbort, installShutdownHandlers } from "./shutdown.js"
+import { acquireTurnSlot, settleTurnUsage } from "./quota.js"
+import { AdminServer } from "./admin-server.js"
+import { buildExplainPrompt, getReactionCommand } from "./reaction-commands.js"
+import { observeOrchestratorTurn, slackUploadFailures } from "./metrics.js"
+import {
+  downloadSlackFile,
+  formatAttachedFilesNote,
+  getSlackFiles,
+  isSlackImage,
+  MAX_PROMPT_IMAGES,
+  MAX_SLACK_FILES_PER_MESSAGE,
+  toInputFilename,
+  toPromptImage,
+  type DownloadedSlackFile,
+  type PromptImage,
+  type SlackFile,
+} from "./slack-files.js"
+import {
+  ACTION_ID_PATTERN,
+  buildControlledMessageBlocks,
+  buildThreadActionsBlock,
+  parseThreadActionId,
+  REPLY_ACTIONS,
+  STATUS_MESSAGE_ACTIONS,
+  type ThreadAction,
+} from "./thread-controls.js"
 
 // Track in-flight requests to prevent duplicate processing
 const inFlight = new Set<string>()
 const debouncingKeyBySession = new Map<string, string>()
 const debouncedEventTsByKey = new Map<string, string[]>()
+// Attachments waiting for the thread's next turn, one entry per message since a turn may batch several.
+// They are written to the sandbox only once the turn has a quota slot.
+const pendingFilesBySession = new Map<string, SlackFile[][]>()
+// Most recent turn per thread, replayed by the Retry button and reaction.
+// Kept for the most recently active threads only; the oldest entry is evicted first.
+const lastTurnBySession = new Map<string, Pick<PendingTurn, "type" | "message" | "eventTs" | "isInThread">>()
+const MAX_REMEMBERED_TURNS = 500
+
+// Set once a shutdown signal arrives; no new turns start after that.
+let shuttingDown = false
+let stopSandboxReaper: (() => void) | undefined
+let adminServer: AdminServer | undefined
+
+const RESTARTING_MESSAGE = "I'm restarting right now. Please send that again in a minute."
+const RESTARTED_MESSAGE = "I was restarted before I could finish this. Please send your last message again."
+const JOB_CONTINUES_MESSAGE = "I'm restarting, but the coding job in this thread keeps running. I'll post the result here when I'm back."
 
 // Initialize Slack app in Socket Mode
 const app = new App({
@@ -115,6 +169,7 @@ async function uploadGeneratedFiles(
     } catch (err) {
       const errMsg = err instanceof Error ? err.message : String(err)
       log.error(`Failed to upload file ${file.path}`, err)
+      slackUploadFailures.inc()
       errors.push(`Failed to upload ${file.filename}: ${errMsg}`)
     }
   }
@@ -122,6 +177,8 @@ async function uploadGeneratedFiles(
   return errors
 }
 
+type SayFn = (args: { text: string; thread_ts: string; blocks?: types.KnownBlock[] }) => Promise<unknown>
+
 interface ProcessMessageParams {
   type: "mention" | "dm"
   userId: string
@@ -129,9 +186,140 @@ interface ProcessMessageParams {
   slackThreadTs: string
   eventTs: string
   rawText: string
+  files: SlackFile[]
   isInThread: boolean
   client: typeof app.client
-  say: (args: { text: string; thread_ts: string }) => Promise<unknown>
+  say: SayFn
+}
+
+/**
+ * Download a message's attachments and write them into the thread's sandbox.
+ * Returns a note for the prompt listing where they were saved and what failed,
+ * plus any images to show the orchestrator.
+ */
+async function ingestSlackFiles(
+  files: SlackFile[],
+  channelId: string,
+  threadTs: string
+): Promise<{ note: string; images: PromptImage[] }> {
+  const token = process.env.SLACK_BOT_TOKEN ?? ""
+  const used = new Set<string>()
+  const downloaded: Array<DownloadedSlackFile & { filename: string }> = []
+  const failures: string[] = []
+
+  for (const file of files.slice(0, MAX_SLACK_FILES_PER_MESSAGE)) {
+    try {
+      const data = await downloadSlackFile(file, token)
+      downloaded.push({ file, data, filename: toInputFilename(file.name, used) })
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      log.warn("Failed to download Slack file", { fileId: file.id, name: file.name, error: message })
+      failures.push(message)
+    }
+  }
+  if (files.length > MAX_SLACK_FILES_PER_MESSAGE) {
+    failures.push(`only the first ${MAX_SLACK_FILES_PER_MESSAGE} files are saved`)
+  }
+
+  let paths: string[] = []
+  if (downloaded.length > 0) {
+    try {
+      paths = await uploadSubagentInputs(channelId, threadTs, downloaded)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      log.warn("Failed to write Slack files to sandbox", { channelId, threadTs, error: message })
+      failures.push(`could not write files to the sandbox (${message})`)
+    }
+  }
+
+  const images: PromptImage[] = []
+  const imagePaths: string[] = []
+  downloaded.forEach(({ file, data }, index) => {
+    if (!isSlackImage(file)) return
+    const image = images.length < MAX_PROMPT_IMAGES ? toPromptImage(file, data) : undefined
+    if (!image) {
+      // Still saved to the sandbox and listed in the note; just not sent to the model.
+      log.info("Not passing attachment to the model as an image", { name: file.name, size: data.length })
+      return
+    }
+    images.push(image)
+    const path = paths[index]
+    if (path) imagePaths.push(path)
+  })
+
+  return { note: formatAttachedFilesNote(paths, failures, imagePaths), images }
+}
+
+async function getPermalink(
+  client: typeof app.client,
+  channelId: string,
+  messageTs: string
+): Promise<string | undefined> {
+  try {
+    const result = await client.chat.getPermalink({ channel: channelId, message_ts: messageTs })
+    return result.permalink
+  } catch (err) {
+    log.warn("Failed to get Slack permalink", {
+      channelId,
+      messageTs,
+      error: err instanceof Error ? err.message : String(err),
+    })
+    return undefined
+  }
+}
+
+/**
+ * Post the root message of a `/fork` thread in the same channel, linking
+ * back to the thread it was forked from. `discard` deletes it again.
+ */
+async function startForkThread(
+  client: typeof app.client,
+  channelId: string,
+  parentThreadTs: string,
+  userId: string
+): Promise<{ threadTs: string; permalink?: string; discard: () => Promise<void> }> {
+  const parentLink = await getPermalink(client, channelId, parentThreadTs)
+  const posted = await client.chat.postMessage({
+    channel: channelId,
+    text: [
+      `<@${userId}> forked ${parentLink ? `<${parentLink}|this thread>` : "a thread"}.`,
+      "The coding sandbox and subagent session pick up from where it was; reply here to continue down this branch.",
+    ].join(" "),
+  })
+  const threadTs = posted.ts
+  if (!threadTs) throw new Error("Slack did not return a timestamp for the forked thread")
+  const discard = async () => {
+    await client.chat.delete({ channel: channelId, ts: threadTs }).catch((err) => {
+      log.warn("Failed to delete root of failed fork", {
+        channelId,
+        threadTs,
+        error: err instanceof Error ? err.message : String(err),
+      })
+    })
+  }
+  return { threadTs, permalink: await getPermalink(client, channelId, threadTs), discard }
+}
+
+/**
+ * Ingest the attachments queued for a thread's next turn and append their
+ * notes to the turn's message.
+ */
+async function takePendingFiles(
+  sessionKey: string,
+  channelId: string,
+  threadTs: string,
+  message: string
+): Promise<{ message: string; images: PromptImage[] }> {
+  const batches = pendingFilesBySession.get(sessionKey) ?? []
+  pendingFilesBySession.delete(sessionKey)
+
+  const images: PromptImage[] = []
+  for (const files of batches) {
+    const ingested = await ingestSlackFiles(files, channelId, threadTs)
+    message = message ? `${message}\n\n${ingested.note}` : ingested.note
+    images.push(...ingested.images)
+  }
+  return { message, images }
 }
 
 async function executePendingTurn(params: {
@@ -139,11 +327,25 @@ async function executePendingTurn(params: {
   channelId: string
   slackThreadTs: string
   client: typeof app.client
-  say: (args: { text: string; thread_ts: string }) => Promise<unknown>
+  say: SayFn
 }): Promise<void> {
   const { turn, channelId, slackThreadTs, client, say } = params
+  const sessionKey = `${channelId}:${slackThreadTs}`
+  const { message, images } = await takePendingFiles(sessionKey, channelId, slackThreadTs, turn.message)
+  // Re-inserted so the map's iteration order runs from least to most recently active.
+  lastTurnBySession.delete(sessionKey)
+  lastTurnBySession.set(sessionKey, {
+    type: turn.type,
+    message,
+    eventTs: turn.eventTs,
+    isInThread: turn.isInThread,
+  })
+  for (const key of lastTurnBySession.keys()) {
+    if (lastTurnBySession.size <= MAX_REMEMBERED_TURNS) break
+    lastTurnBySession.delete(key)
+  }
 
-  let prompt = turn.message
+  let prompt = message
   if (turn.includeThreadHistory && turn.isInThread) {
     const botUserId = await getBotUserId(client)
     const afterTs = getLastSeenEventTs(channelId, slackThreadTs)
@@ -165,22 +367,49 @@ async function executePendingTurn(params: {
   log.request(turn.type, turn.userId, channelId, prompt)
   const startedAt = Date.now()
 
+  // Status messages posted for this turn, keyed so later updates edit them in place.
+  const statusMessageTs = new Map<string, string>()
+
   const result = await runThreadTurn({
     channelId,
     threadTs: slackThreadTs,
     userId: turn.userId,
     eventTs: turn.eventTs,
     message: prompt,
-    progressCallback: async (message) => {
+    images,
+    progressCallback: async (message, options) => {
       log.debug("Posting orchestrator progress update", {
         channelId,
         threadTs: slackThreadTs,
+        statusKey: options?.statusKey,
         message,
       })
-      await say({
-        text: message,
+
+      if (!options?.statusKey) {
+        await say({
+          text: message,
+          thread_ts: slackThreadTs,
+        })
+        return
+      }
+
+      // Controls come off once the job is over so stale buttons don't linger.
+      const blocks = buildControlledMessageBlocks(message, slackThreadTs, options.finished ? [] : STATUS_MESSAGE_ACTIONS)
+      const existingTs = statusMessageTs.get(options.statusKey)
+      if (existingTs) {
+        await client.chat.update({ channel: channelId, ts: existingTs, text: message, blocks })
+        return
+      }
+
+      const posted = await client.chat.postMessage({
+        channel: channelId,
         thread_ts: slackThreadTs,
+        text: message,
+        blocks,
       })
+      if (posted.ts) {
+        statusMessageTs.set(options.statusKey, posted.ts)
+      }
     },
   })
 
@@ -190,14 +419,18 @@ async function executePendingTurn(params: {
   }
 
   let content = result.content || "Done."
+  if (result.diffSummaries.length > 0) {
+    content += `\n\n${result.diffSummaries.join("\n\n")}`
+  }
   if (uploadErrors.length > 0) {
     content += `\n\n_Note: ${uploadErrors.join("; ")}_`
   }
 
   const formatted = cleanSlackMessage(markdownToSlack(content))
-  await sendChunkedResponse(say, formatted, slackThreadTs)
+  await sendChunkedResponse(say, formatted, slackThreadTs, REPLY_ACTIONS)
 
   log.response(turn.type, turn.userId, Date.now() - startedAt, true)
+  observeOrchestratorTurn("completed", Date.now() - startedAt)
 
   for (const timestamp of turn.eventTimestamps) {
     await client.reactions
@@ -218,6 +451,7 @@ async function processMessage(params: ProcessMessageParams): Promise<void> {
     slackThreadTs,
     eventTs,
     rawText,
+    files,
     isInThread,
     client,
     say,
@@ -225,7 +459,19 @@ async function processMessage(params: ProcessMessageParams): Promise<void> {
 
   const command = extractControlCommand(rawText)
   if (command) {
-    const commandResult = await runControlCommand(command, channelId, slackThreadTs)
+    let commandResult: string
+    try {
+      commandResult = await runControlCommand(
+        command,
+        channelId,
+        slackThreadTs,
+        userId,
+        () => startForkThread(client, channelId, slackThreadTs, userId),
+      )
+    } catch (error) {
+      log.error("Error running control command", error)
+      commandResult = formatErrorForUser(error)
+    }
     await say({
       text: commandResult,
       thread_ts: slackThreadTs,
@@ -233,9 +479,18 @@ async function processMessage(params: ProcessMessageParams): Promise<void> {
     return
   }
 
+  if (shuttingDown) {
+    await say({ text: RESTARTING_MESSAGE, thread_ts: slackThreadTs })
+    return
+  }
+
   const debounceKey = `${channelId}:${slackThreadTs}:${userId}`
   const sessionKey = `${channelId}:${slackThreadTs}`
 
+  if (files.length > 0) {
+    pendingFilesBySession.set(sessionKey, [...(pendingFilesBySession.get(sessionKey) ?? []), files])
+  }
+
   if (inFlight.has(sessionKey)) {
     const activeDebounceKey = debouncingKeyBySession.get(sessionKey)
     if (activeDebounceKey === debounceKey) {
@@ -283,6 +538,11 @@ async function processMessage(params: ProcessMessageParams): Promise<void> {
     debouncingKeyBySession.delete(sessionKey)
     debouncedEventTsByKey.delete(debounceKey)
 
+    if (shuttingDown) {
+      await say({ text: RESTARTING_MESSAGE, thread_ts: slackThreadTs })
+      return
+    }
+
     activeTurn = buildInitialPendingTurn({
       type,
       userId,
@@ -293,14 +553,27 @@ async function processMessage(params: ProcessMessageParams): Promise<void> {
     })
 
     while (activeTurn) {
+      // Checked per turn so queued follow-ups count against the quota too.
+      const slot = acquireTurnSlot(activeTurn.userId, channelId, sessionKey)
+      if (!slot.allowed) {
+        await say({ text: slot.message, thread_ts: slackThreadTs })
+        clearFollowUpQueue(sessionKey)
+        activeTurn = undefined
+        break
+      }
+
       activeTurnStartedAt = Date.now()
-      await executePendingTurn({
-        turn: activeTurn,
-        channelId,
-        slackThreadTs,
-        client,
-        say,
-      })
+      try {
+        await executePendingTurn({
+          turn: activeTurn,
+          channelId,
+          slackThreadTs,
+          client,
+          say,
+        })
+      } finally {
+        slot.release()
+      }
 
       const queuedBatch = drainFollowUpBatch(sessionKey)
       if (queuedBatch.length === 0) {
@@ -308,6 +581,13 @@ async function processMessage(params: ProcessMessageParams): Promise<void> {
         break
       }
 
+      if (shuttingDown) {
+        log.info("Dropping queued follow-ups for shutdown", { sessionKey, queuedCount: queuedBatch.length })
+        await say({ text: RESTARTING_MESSAGE, thread_ts: slackThreadTs })
+        activeTurn = undefined
+        break
+      }
+
       log.debug("Draining queued follow-up messages", {
         sessionKey,
         queuedCount: queuedBatch.length,
@@ -356,12 +636,14 @@ async function processMessage(params: ProcessMessageParams): Promise<void> {
       })
       cancel(debounceKey)
       clearFollowUpQueue(sessionKey)
+      if (activeTurn) observeOrchestratorTurn("aborted", Date.now() - activeTurnStartedAt)
       return
     }
 
     log.error("Error processing message", error)
     if (activeTurn) {
       log.response(activeTurn.type, activeTurn.userId, Date.now() - activeTurnStartedAt, false)
+      observeOrchestratorTurn("failed", Date.now() - activeTurnStartedAt)
     } else {
       log.response(type, userId, Date.now() - runStartedAt, false)
     }
@@ -383,6 +665,7 @@ async function processMessage(params: ProcessMessageParams): Promise<void> {
     inFlight.delete(sessionKey)
     debouncingKeyBySession.delete(sessionKey)
     debouncedEventTsByKey.delete(debounceKey)
+    pendingFilesBySession.delete(sessionKey)
 
     await client.reactions
       .remove({
@@ -412,7 +695,8 @@ app.event("app_mention", async ({ event, client, say }) => {
   }
 
   const rawText = event.text.replace(/<@[A-Z0-9]+>/g, "").trim()
-  if (!rawText) {
+  const files = getSlackFiles(event)
+  if (!rawText && files.length === 0) {
     await say({ text: "How can I help you?", thread_ts: slackThreadTs })
     return
   }
@@ -424,6 +708,7 @@ app.event("app_mention", async ({ event, client, say }) => {
     slackThreadTs,
     eventTs: event.ts,
     rawText,
+    files,
     isInThread: event.thread_ts !== undefined,
     client,
     say,
@@ -433,7 +718,9 @@ app.event("app_mention", async ({ event, client, say }) => {
 // Handle direct messages
 app.event("message", async ({ event, client, say }) => {
   if (event.channel_type !== "im") return
-  if ("bot_id" in event || "subtype" in event) return
+  if ("bot_id" in event) return
+  // Messages with attachments arrive with the file_share subtype; skip edits, joins and the like.
+  if ("subtype" in event && event.subtype !== "file_share") return
 
   const messageEvent = event as {
     ts: string
@@ -454,7 +741,8 @@ app.event("message", async ({ event, client, say }) => {
   const slackThreadTs = messageEvent.thread_ts ?? messageEvent.ts
   const channelId = messageEvent.channel
   const rawText = messageEvent.text ?? ""
-  if (!rawText) return
+  const files = getSlackFiles(event)
+  if (!rawText && files.length === 0) return
 
   await processMessage({
     type: "dm",
@@ -463,6 +751,7 @@ app.event("message", async ({ event, client, say }) => {
     slackThreadTs,
     eventTs: messageEvent.ts,
     rawText,
+    files,
     isInThread: messageEvent.thread_ts !== undefined,
     client,
     say,
@@ -470,16 +759,163 @@ app.event("message", async ({ event, client, say }) => {
 })
 
 async function sendChunkedResponse(
-  say: (args: { text: string; thread_ts: string }) => Promise<unknown>,
+  say: SayFn,
   content: string,
-  threadTs: string
+  threadTs: string,
+  actions?: ThreadAction[]
 ) {
   const chunks = splitIntoChunks(content)
-  for (const chunk of chunks) {
-    await say({ text: chunk, thread_ts: threadTs })
+  let controlsSent = false
+  for (const [index, chunk] of chunks.entries()) {
+    const blocks = actions && index === chunks.length - 1
+      ? buildControlledMessageBlocks(chunk, threadTs, actions)
+      : undefined
+    await say({ text: chunk, thread_ts: threadTs, blocks })
+    controlsSent ||= blocks !== undefined
   }
+  // The last chunk was too long for a section block; post the controls on their own.
+  if (actions && !controlsSent) {
+    await say({ text: "Thread controls", thread_ts: threadTs, blocks: [buildThreadActionsBlock(threadTs, actions)] })
+  }
+}
+
+/**
+ * Run the thread's most recent turn again on behalf of `userId`.
+ */
+async function retryLastTurn(
+  channelId: string,
+  threadTs: string,
+  userId: string,
+  client: typeof app.client,
+  say: SayFn
+): Promise<void> {
+  const lastTurn = lastTurnBySession.get(`${channelId}:${threadTs}`)
+  if (!lastTurn) {
+    await say({ text: "I don't have a previous turn in this thread to retry.", thread_ts: threadTs })
+    return
+  }
+
+  await processMessage({
+    type: lastTurn.type,
+    userId,
+    channelId,
+    slackThreadTs: threadTs,
+    eventTs: lastTurn.eventTs,
+    rawText: lastTurn.message,
+    files: [],
+    isInThread: lastTurn.isInThread,
+    client,
+    say,
+  })
+}
+
+/**
+ * Allowlist check for controls triggered outside a message event (buttons
+ * and reactions). DMs are only subject to the user allowlist, as with direct
+ * messages themselves.
+ */
+function isThreadControlAllowed(userId: string, channelId: string): boolean {
+  if (!isUserAllowed(userId)) return false
+  return channelId.startsWith("D") || isChannelAllowed(channelId)
 }
 
+// Handle Block Kit controls on Jane's messages
+app.action<BlockButtonAction>(ACTION_ID_PATTERN, async ({ ack, body, action, client, respond }) => {
+  await ack()
+
+  const threadAction = parseThreadActionId(action.action_id)
+  const threadTs = action.value
+  const channelId = body.channel?.id
+  const userId = body.user.id
+  if (!threadAction || !threadTs || !channelId) return
+
+  if (!isThreadControlAllowed(userId, channelId)) {
+    log.warn("Unauthorized thread control", { userId, channelId, action: threadAction })
+    await respond({ response_type: "ephemeral", replace_original: false, text: "You're not allowed to control Jane here." })
+    return
+  }
+
+  log.info("Thread control clicked", { userId, channelId, threadTs, action: threadAction })
+  const say: SayFn = (args) => client.chat.postMessage({ channel: channelId, ...args })
+
+  try {
+    if (threadAction === "retry") {
+      await retryLastTurn(channelId, threadTs, userId, client, say)
+      return
+    }
+    const text = await runControlCommand(threadAction, channelId, threadTs, userId)
+    await say({ text, thread_ts: threadTs })
+  } catch (err) {
+    log.error("Thread control failed", err)
+    await respond({ response_type: "ephemeral", replace_original: false, text: formatErrorForUser(err) })
+  }
+})
+
+// Handle emoji reactions on Jane's messages and thread roots as commands
+app.event("reaction_added", async ({ event, client }) => {
+  if (event.item.type !== "message") return
+  const command = getReactionCommand(event.reaction)
+  if (!command) return
+
+  const { channel: channelId, ts: itemTs } = event.item
+  const userId = event.user
+  const botUserId = await getBotUserId(client)
+  if (userId === botUserId) return
+
+  if (!isThreadControlAllowed(userId, channelId)) {
+    log.warn("Unauthorized reaction command", { userId, channelId, command })
+    return
+  }
+
+  try {
+    // Bounded to the reacted message, so this works for thread replies as well as roots.
+    const result = await client.conversations.replies({
+      channel: channelId,
+      ts: itemTs,
+      oldest: itemTs,
+      latest: itemTs,
+      inclusive: true,
+      limit: 2,
+    })
+    const message = result.messages?.find((candidate) => candidate.ts === itemTs)
+    if (!message) return
+
+    const threadTs = message.thread_ts ?? itemTs
+    // Other roots only count once Jane has joined their thread.
+    const isJaneMessage = event.item_user === botUserId
+    if (!isJaneMessage && (threadTs !== itemTs || !hasOrchestratorSession(channelId, threadTs))) return
+
+    log.info("Reaction command", { userId, channelId, threadTs, command, reaction: event.reaction })
+    const say: SayFn = (args) => client.chat.postMessage({ channel: channelId, ...args })
+
+    if (command === "retry") {
+      await retryLastTurn(channelId, threadTs, userId, client, say)
+      return
+    }
+    if (command === "abort") {
+      // Nothing to abort is not worth a reply to a reaction.
+      const text = await abortThreadJob(channelId, threadTs)
+      if (text) await say({ text, thread_ts: threadTs })
+      return
+    }
+
+    await processMessage({
+      type: channelId.startsWith("D") ? "dm" : "mention",
+      userId,
+      channelId,
+      slackThreadTs: threadTs,
+      eventTs: itemTs,
+      rawText: buildExplainPrompt(message.text ?? ""),
+      files: [],
+      isInThread: message.thread_ts !== undefined,
+      client,
+      say,
+    })
+  } catch (err) {
+    log.error("Reaction command failed", err)
+  }
+})
+
 async function runStartupDiagnostics(): Promise<void> {
   const client = getSandboxClient()
   log.info("Running startup sandbox diagnostics", { backend: config.sandboxBackend })
@@ -500,10 +936,12 @@ async function runStartupDiagnostics(): Promise<void> {
       if (sandbox.status === "cold") counts.cold += 1
     }
 
+    const pool = getSandboxPool()
     log.info("Sandbox backend verified", {
       backend: config.sandboxBackend,
       durationMs: Date.now() - startedAt,
       sandboxes: counts,
+      warmPool: pool ? formatSandboxPoolStatus(pool.status()) : "disabled",
     })
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err)
@@ -518,20 +956,186 @@ function createSandboxClient() {
   if (config.sandboxBackend === "docker") {
     return new DockerSandboxClient()
   }
+  if (config.sandboxBackend === "local") {
+    return new LocalSandboxClient()
+  }
   if (!config.spritesToken) {
     throw new Error("Sandbox token (SPRITES_TOKEN) is required when using the sprites backend")
   }
   return new SpritesClient(config.spritesToken)
 }
 
+function parseSessionKey(sessionKey: string): { channelId: string; threadTs: string } {
+  const separator = sessionKey.indexOf(":")
+  return { channelId: sessionKey.slice(0, separator), threadTs: sessionKey.slice(separator + 1) }
+}
+
+async function postToThreads(sessionKeys: Iterable<string>, text: string): Promise<void> {
+  await Promise.all(Array.from(sessionKeys, async (sessionKey) => {
+    const { channelId, threadTs } = parseSessionKey(sessionKey)
+    await app.client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text }).catch((err) => {
+      log.warn("Failed to post shutdown notice", {
+        sessionKey,
+        error: err instanceof Error ? err.message : String(err),
+      })
+    })
+  }))
+}
+
+function hasDetachedJob(sessionKey: string): boolean {
+  const { channelId, threadTs } = parseSessionKey(sessionKey)
+  try {
+    return getSessionStore().getByThread(channelId, threadTs)?.runningJobId !== undefined
+  } catch (err) {
+    log.warn("Failed to look up subagent session during shutdown", {
+      sessionKey,
+      error: err instanceof Error ? err.message : String(err),
+    })
+    return false
+  }
+}
+
+/**
+ * Stop taking Slack events, let running turns finish until the drain deadline,
+ * then abort the rest and release sandboxes and the session store. Subagent
+ * jobs still running at the deadline are left alone for the next start to adopt.
+ */
+async function shutdown(signal: NodeJS.Signals): Promise<void> {
+  shuttingDown = true
+  log.info("Shutting down", { signal, inFlight: inFlight.size, drainMs: config.shutdownDrainMs })
+
+  await app.stop().catch((err) => log.error("Failed to stop Slack receiver", err))
+  stopSandboxReaper?.()
+  getSandboxPool()?.stop()
+
+  if (inFlight.size > 0) {
+    await postToThreads(inFlight, "I'm restarting shortly. I'll try to finish what I'm working on first.")
+  }
+
+  // Detached subagent jobs keep running in their sandboxes; the next start
+  // reattaches to them and posts the result, so only the turns are dropped.
+  const detached: string[] = []
+  const interrupted: string[] = []
+  const drained = await drainOrAbort(() => inFlight.size === 0, () => {
+    const remaining = Array.from(inFlight)
+    log.warn("Shutdown deadline reached, aborting in-flight turns", { threads: remaining })
+
+    for (const sessionKey of remaining) {
+      const debounceKey = debouncingKeyBySession.get(sessionKey)
+      if (debounceKey) cancel(debounceKey)
+      clearFollowUpQueue(sessionKey)
+      if (hasDetachedJob(sessionKey)) {
+        detached.push(sessionKey)
+      } else {
+        interrupted.push(sessionKey)
+      }
+    }
+
+    // Turns waiting on a subagent job are released first, or their abort
+    // would wait for the job. Nothing may still write once the store closes.
+    detachRunningJobs()
+    abortOrchestratorTurns().catch((err) => log.error("Failed to abort orchestrator turns", err))
+  }, config.shutdownDrainMs)
+
+  if (!drained) {
+    await postToThreads(detached, JOB_CONTINUES_MESSAGE)
+    await postToThreads(interrupted, RESTARTED_MESSAGE)
+  }
+
+  await adminServer?.close().catch((err) => log.error("Failed to stop admin API", err))
+  // Followers of jobs reattached at startup belong to no turn; let them go too.
+  detachRunningJobs()
+  closeSessionStore()
+  log.info("Shutdown complete", { drained })
+}
+
+const RECOVERED_JOB_NOTICES: Record<RecoveredJob["outcome"], string> = {
+  reattached: "I restarted while a coding job was running in this thread. It's still going; I'll post the result here when it finishes.",
+  completed: "I restarted while a coding job was running in this thread. It finished in the meantime; here's the result.",
+  failed: "I restarted while a coding job was running in this thread, and it failed.",
+  interrupted: "I restarted while a coding job was running in this thread, and it stopped before producing a result. Ask me to check the workspace or try again.",
+  lost: "I restarted while a coding job was running in this thread, and its sandbox is gone. Please send the request again.",
+}
+
+/**
+ * Post a recovered job's notice and, once it has finished, its result into the
+ * job's original thread.
+ */
+async function deliverRecoveredJob(job: RecoveredJob, notice: string): Promise<void> {
+  const say: SayFn = (args) => app.client.chat.postMessage({ channel: job.channelId, ...args })
+
+  try {
+    const text = job.error ? `${notice}\n\n${formatErrorForUser(job.error)}` : notice
+    await say({ text, thread_ts: job.threadTs })
+
+    if (job.content) {
+      await sendChunkedResponse(say, cleanSlackMessage(markdownToSlack(job.content)), job.threadTs)
+    }
+    if (job.generatedFiles?.length) {
+      const uploadErrors = await uploadGeneratedFiles(app.client, job.generatedFiles, job.channelId, job.threadTs)
+      if (uploadErrors.length > 0) {
+        await say({ text: `_Note: ${uploadErrors.join("; ")}_`, thread_ts: job.threadTs })
+      }
+    }
+  } catch (err) {
+    log.warn("Failed to deliver recovered job", {
+      subagentSessionId: job.subagentSessionId,
+      jobId: job.jobId,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  }
+}
+
+/**
+ * Settle subagent sessions a previous process left `running` and tell each
+ * affected thread what happened to its job.
+ */
+async function recoverRunningJobs(): Promise<void> {
+  const recovered = await reconcileRunningSessions((job) =>
+    deliverRecoveredJob(job, job.outcome === "completed"
+      ? "The coding job that was running before my restart has finished. Here's the result."
+      : "The coding job that was running before my restart has failed.")
+  )
+  for (const job of recovered) {
+    await deliverRecoveredJob(job, RECOVERED_JOB_NOTICES[job.outcome])
+  }
+}
+
+async function startAdminServer(): Promise<void> {
+  if (!config.adminHttpPort) return
+  if (!config.adminApiToken) {
+    log.warn("ADMIN_HTTP_PORT is set without ADMIN_API_TOKEN; admin API disabled")
+    return
+  }
+  const server = new AdminServer(config.adminApiToken)
+  try {
+    await server.listen(config.adminHttpHost, config.adminHttpPort)
+    adminServer = server
+  } catch (err) {
+    log.error("Failed to start admin API", err)
+  }
+}
+
 // Start the app
 async function main() {
   initSessionStore(config.sessionDbPath)
+  settleTurnUsage()
 
   const client = createSandboxClient()
   initSandboxClient(client)
+  startSubagentSandboxPool(config.subagentPrewarmCount)
+
+  const idlePolicy: SandboxIdlePolicy = {
+    stopAfterMs: config.sandboxIdleStopMs,
+    deleteAfterMs: config.sandboxIdleDeleteMs,
+  }
+  if (minimumIdleMs(idlePolicy) !== undefined) {
+    stopSandboxReaper = startSandboxReaper(() => reapIdleSandboxes(idlePolicy))
+  }
 
   await app.start()
+  installShutdownHandlers(shutdown)
+  await startAdminServer()
 
   log.startup({
     workspace: config.workspaceDir,
@@ -543,8 +1147,9 @@ async function main() {
     githubApp: !!(process.env.GITHUB_APP_ID && process.env.GITHUB_APP_PRIVATE_KEY && process.env.GITHUB_APP_INSTALLATION_ID),
   })
 
-  // Run diagnostics in background so Slack connectivity is never blocked.
+  // Run diagnostics and job recovery in background so Slack connectivity is never blocked.
   void runStartupDiagnostics()
+  void recoverRunningJobs().catch((err) => log.error("Failed to recover running subagent jobs", err))
 }
 
 main().catch((err) => log.error("Startup failed", err))
@@ -0,0 +1,46 @@
+import assert from "node:assert"
+import { describe, it } from "node:test"
+import { formatJobHistory, formatJobHistoryEntry } from "./job-history.js"
+import type { PersistedSubagentJob } from "./session-store.js"
+
+const baseJob: PersistedSubagentJob = {
+  jobId: "job_1",
+  subagentSessionId: "sa_1",
+  threadKey: "C1:1",
+  channelId: "C1",
+  threadTs: "1",
+  instruction: "Fix the failing tests\nand push a branch",
+  status: "completed",
+  exitCode: 0,
+  model: "claude",
+  artifacts: ["report.md"],
+  startedAt: 0,
+  finishedAt: 125000,
+}
+
+describe("formatJobHistoryEntry", () => {
+  it("shows status, duration, first instruction line and details", () => {
+    assert.strictEqual(
+      formatJobHistoryEntry(baseJob, 0),
+      "• `job_1` *completed* (2m 5s): Fix the failing tests\n    exit 0 | claude | artifacts: report.md"
+    )
+  })
+
+  it("shows elapsed time for running jobs", () => {
+    const text = formatJobHistoryEntry({
+      ...baseJob,
+      status: "running",
+      exitCode: undefined,
+      model: undefined,
+      artifacts: [],
+      finishedAt: undefined,
+    }, 30000)
+    assert.strictEqual(text, "• `job_1` *running* (30s so far): Fix the failing tests")
+  })
+})
+
+describe("formatJobHistory", () => {
+  it("handles threads without jobs", () => {
+    assert.strictEqual(formatJobHistory([], 0), "No coding jobs have run in this thread yet.")
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * Formatting for the `/history` thread command.
+ */
+
+import * as log from "./logger.js"
+import { formatElapsed } from "./pi-progress.js"
+import { getSessionStore, type PersistedSubagentJob } from "./session-store.js"
+
+export const HISTORY_LIMIT = 10
+
+const INSTRUCTION_PREVIEW_CHARS = 80
+
+function previewInstruction(instruction: string): string {
+  const firstLine = instruction.trim().split("\n")[0] ?? ""
+  return firstLine.length > INSTRUCTION_PREVIEW_CHARS
+    ? `${firstLine.slice(0, INSTRUCTION_PREVIEW_CHARS - 1)}…`
+    : firstLine
+}
+
+export function formatJobHistoryEntry(job: PersistedSubagentJob, now: number): string {
+  const duration = job.finishedAt !== undefined
+    ? formatElapsed(job.finishedAt - job.startedAt)
+    : `${formatElapsed(now - job.startedAt)} so far`
+  const details = [
+    job.exitCode !== undefined ? `exit ${job.exitCode}` : undefined,
+    job.model,
+    job.artifacts.length > 0 ? `artifacts: ${job.artifacts.join(", ")}` : undefined,
+    job.error ? `error: ${job.error.split("\n")[0]}` : undefined,
+  ].filter(Boolean)
+
+  const lines = [`• \`${job.jobId}\` *${job.status}* (${duration}): ${previewInstruction(job.instruction)}`]
+  if (details.length > 0) lines.push(`    ${details.join(" | ")}`)
+  return lines.join("\n")
+}
+
+export function formatJobHistory(jobs: PersistedSubagentJob[], now: number): string {
+  if (jobs.length === 0) return "No coding jobs have run in this thread yet."
+  return [
+    `Last ${jobs.length} coding job${jobs.length === 1 ? "" : "s"} in this thread (newest first):`,
+    ...jobs.map((job) => formatJobHistoryEntry(job, now)),
+  ].join("\n")
+}
+
+/**
+ * Text for the `/history` command.
+ */
+export function formatJobHistoryReport(threadKey: string, now = Date.now()): string {
+  try {
+    return formatJobHistory(getSessionStore().listJobs(threadKey, HISTORY_LIMIT), now)
+  } catch (err) {
+    log.warn("Failed to load subagent job history", {
+      threadKey,
+      error: err instanceof Error ? err.message : String(err),
+    })
+    return "Job history is unavailable right now."
+  }
+}
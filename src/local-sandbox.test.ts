@@ -0,0 +1,105 @@
+import assert from "node:assert"
+import { mkdtempSync, readFileSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import { LocalSandboxClient } from "./local-sandbox.js"
+
+function isProcessGone(pid: number): boolean {
+  try {
+    // Field 3 of /proc/<pid>/stat is the state; a killed but unreaped process is a zombie.
+    return readFileSync(`/proc/${pid}/stat`, "utf-8").split(") ")[1]?.startsWith("Z") ?? true
+  } catch {
+    return true
+  }
+}
+
+describe("LocalSandboxClient", () => {
+  let root = ""
+  let client: LocalSandboxClient
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "janebot-local-sandbox-"))
+    client = new LocalSandboxClient({ root, isolation: "none" })
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it("runs commands and transfers files relative to the sandbox home", async () => {
+    assert.strictEqual(await client.ensureRunning("jane-a"), "created")
+    assert.strictEqual(await client.ensureRunning("jane-a"), "running")
+
+    await client.uploadFile("jane-a", `${client.homeDir}/workspace/input.txt`, Buffer.from("hello"))
+    const result = await client.exec("jane-a", ["bash", "-c", 'cat input.txt && echo " $GREETING" > "$HOME/out.txt"'], {
+      dir: `${client.homeDir}/workspace`,
+      env: { GREETING: "world" },
+    })
+    assert.strictEqual(result.exitCode, 0)
+    assert.strictEqual(result.stdout, "hello")
+    assert.strictEqual((await client.downloadFile("jane-a", `${client.homeDir}/out.txt`)).toString(), " world\n")
+
+    await client.create("jane-b")
+    assert.deepStrictEqual((await client.list("jane-")).map((sandbox) => sandbox.name).sort(), ["jane-a", "jane-b"])
+    await assert.rejects(client.create("../escape"), /Invalid local sandbox name/)
+    await assert.rejects(client.stop("../escape"), /Invalid local sandbox name/)
+  })
+
+  it("keeps a multi-byte character split across output chunks intact", async () => {
+    await client.create("jane-a")
+    const chunks: string[] = []
+    const result = await client.exec("jane-a", ["bash", "-c", "printf '\\xe2\\x82'; sleep 0.2; printf '\\xac\\n'"], {
+      onStdout: (chunk) => chunks.push(chunk),
+    })
+    assert.strictEqual(result.stdout, "€\n")
+    assert.strictEqual(chunks.join(""), "€\n")
+    assert.strictEqual(Buffer.byteLength(result.stdout), 4)
+  })
+
+  it("kills a sandbox's processes on stop and removes it on delete", async () => {
+    await client.create("jane-a")
+    const launched = await client.exec("jane-a", ["bash", "-c", "setsid sleep 30 > /dev/null 2>&1 & echo $!"])
+    const pid = parseInt(launched.stdout.trim(), 10)
+    assert.strictEqual(isProcessGone(pid), false)
+
+    await client.stop("jane-a")
+    assert.strictEqual((await client.get("jane-a"))?.status, "cold")
+    await assert.rejects(client.exec("jane-a", ["true"]), /is stopped/)
+    for (let attempt = 0; attempt < 20 && !isProcessGone(pid); attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 50))
+    }
+    assert.strictEqual(isProcessGone(pid), true)
+
+    assert.strictEqual(await client.ensureRunning("jane-a"), "started")
+    await client.delete("jane-a")
+    assert.strictEqual(await client.get("jane-a"), null)
+  })
+
+  it("renames a sandbox, keeping its files and stopped state", async () => {
+    await client.create("jane-pool-1")
+    await client.uploadFile("jane-pool-1", `${client.homeDir}/workspace/state.txt`, Buffer.from("warm"))
+    await client.stop("jane-pool-1")
+    await client.create("jane-b")
+
+    await assert.rejects(client.rename("jane-pool-1", "jane-b"), /already exists/)
+    await client.rename("jane-pool-1", "jane-a")
+    assert.strictEqual(await client.get("jane-pool-1"), null)
+    assert.strictEqual((await client.get("jane-a"))?.status, "cold")
+    assert.strictEqual(await client.ensureRunning("jane-a"), "started")
+    assert.strictEqual((await client.downloadFile("jane-a", `${client.homeDir}/workspace/state.txt`)).toString(), "warm")
+  })
+
+  it("creates a sandbox from a checkpoint of another", async () => {
+    await client.create("jane-a")
+    await client.uploadFile("jane-a", `${client.homeDir}/workspace/state.txt`, Buffer.from("before"))
+    const checkpointId = await client.checkpoint("jane-a")
+    await client.uploadFile("jane-a", `${client.homeDir}/workspace/state.txt`, Buffer.from("after"))
+
+    await client.createFromCheckpoint("jane-fork", "jane-a", checkpointId)
+    const forked = await client.downloadFile("jane-fork", `${client.homeDir}/workspace/state.txt`)
+    assert.strictEqual(forked.toString(), "before")
+    // A checkpoint is consumed by the sandbox created from it.
+    await assert.rejects(client.createFromCheckpoint("jane-fork-2", "jane-a", checkpointId), /Failed to create local sandbox/)
+  })
+})
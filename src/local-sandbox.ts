@@ -0,0 +1,506 @@
+/**
+ * Local process SandboxClient implementation, for development and CI.
+ *
+ * Each sandbox is a directory under LOCAL_SANDBOX_ROOT and its commands are
+ * child processes on the host. Commands see that directory at homeDir: under
+ * bubblewrap or `unshare` it is bind-mounted there in a private mount
+ * namespace, and without either, homeDir is rewritten to the sandbox
+ * directory in arguments, environment, working directory and stdin.
+ *
+ * Only the home directory is separated. Processes share the host's
+ * filesystem, network, users and process table, so this is no security
+ * boundary, and network policy is not enforced.
+ */
+
+import { spawn } from "node:child_process"
+import { createReadStream } from "node:fs"
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises"
+import { dirname, join, resolve } from "node:path"
+import type { Readable } from "node:stream"
+import * as log from "./logger.js"
+import type {
+  SandboxClient,
+  SandboxEnsureResult,
+  SandboxInfo,
+  SandboxExecOptions,
+  SandboxExecResult,
+  SandboxFileTransferOptions,
+  SandboxNetworkPolicyRule,
+} from "./sandbox.js"
+import {
+  assertWithinTransferLimit,
+  createVerifyingStream,
+  readStreamToBuffer,
+  SANDBOX_FILE_MAX_BYTES,
+  statSandboxFile,
+  verifySandboxUpload,
+} from "./sandbox-files.js"
+
+export type LocalSandboxIsolation = "bwrap" | "unshare" | "none"
+
+export interface LocalSandboxOptions {
+  /** Directory holding sandboxes and checkpoints (default LOCAL_SANDBOX_ROOT). */
+  root?: string
+  /** How commands see their sandbox at homeDir; "auto" picks the first that works. */
+  isolation?: LocalSandboxIsolation | "auto"
+}
+
+const LOCAL_ROOT = process.env.LOCAL_SANDBOX_ROOT
+  || join(process.env.WORKSPACE_DIR ?? process.cwd(), ".janebot", "sandboxes")
+const ISOLATION_SETTINGS = ["auto", "bwrap", "unshare", "none"]
+const HOST_COMMAND_TIMEOUT_MS = 600000
+
+// Set on every command so stop and delete can find a sandbox's processes,
+// including detached jobs, by their environment.
+const SANDBOX_ENV_KEY = "JANE_LOCAL_SANDBOX"
+
+// Runs as "sh -c SCRIPT sh <sandbox dir> <home> <cwd> <command...>" inside a
+// new user and mount namespace.
+const UNSHARE_SCRIPT = 'mount --bind "$1" "$2" && cd "$3" && shift 3 && exec "$@"'
+
+// Sandbox names and checkpoint ids become directory names under the root.
+function checkPathSegment(value: string): string {
+  if (!/^[\w-][\w.-]*$/.test(value)) {
+    throw new Error(`Invalid local sandbox name or checkpoint id: ${value}`)
+  }
+  return value
+}
+
+export class LocalSandboxClient implements SandboxClient {
+  readonly homeDir: string
+  readonly piBin: string
+  readonly npmBin: string
+  readonly defaultPath: string
+
+  private readonly root: string
+  private readonly isolationSetting: LocalSandboxIsolation | "auto"
+  private resolvedIsolation: Promise<LocalSandboxIsolation> | undefined
+
+  constructor(options: LocalSandboxOptions = {}) {
+    const isolation = (options.isolation ?? process.env.LOCAL_SANDBOX_ISOLATION ?? "auto").trim().toLowerCase()
+    if (!ISOLATION_SETTINGS.includes(isolation)) {
+      throw new Error(`Invalid LOCAL_SANDBOX_ISOLATION: ${isolation}. Expected "auto", "bwrap", "unshare" or "none".`)
+    }
+    this.isolationSetting = isolation as LocalSandboxIsolation | "auto"
+    this.root = resolve(options.root ?? LOCAL_ROOT)
+
+    // The sandbox's home is mounted over this (empty) directory. Global npm
+    // installs go inside it, so each sandbox gets its own pi.
+    this.homeDir = join(this.root, "home")
+    const nodeBinDir = dirname(process.execPath)
+    this.piBin = `${this.homeDir}/.npm-global/bin/pi`
+    this.npmBin = `${nodeBinDir}/npm`
+    this.defaultPath = `${this.homeDir}/.npm-global/bin:${nodeBinDir}:/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin`
+  }
+
+  private sandboxDir(name: string): string {
+    return join(this.root, "boxes", checkPathSegment(name))
+  }
+
+  private checkpointDir(checkpointId: string): string {
+    return join(this.root, "checkpoints", checkPathSegment(checkpointId))
+  }
+
+  private stoppedMarker(name: string): string {
+    return join(this.root, "boxes", `.${checkPathSegment(name)}.stopped`)
+  }
+
+  /**
+   * Map a path as commands see it to the host path of the sandbox's file.
+   */
+  private hostPath(name: string, path: string): string {
+    if (path === this.homeDir || path.startsWith(`${this.homeDir}/`)) {
+      return this.sandboxDir(name) + path.slice(this.homeDir.length)
+    }
+    return path
+  }
+
+  /**
+   * Run a command on the host itself, killing it after `timeoutMs`.
+   */
+  private async host(
+    command: string,
+    args: string[],
+    timeoutMs = HOST_COMMAND_TIMEOUT_MS
+  ): Promise<SandboxExecResult> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, { stdio: "pipe" })
+      let stdout = ""
+      let stderr = ""
+      let resolved = false
+
+      const timeout = setTimeout(() => {
+        if (!resolved) {
+          resolved = true
+          child.kill("SIGTERM")
+          reject(new Error(`${command} timed out after ${timeoutMs}ms`))
+        }
+      }, timeoutMs)
+
+      child.stdout.setEncoding("utf8")
+      child.stderr.setEncoding("utf8")
+      child.stdout.on("data", (chunk: string) => { stdout += chunk })
+      child.stderr.on("data", (chunk: string) => { stderr += chunk })
+
+      child.on("error", (err) => {
+        if (!resolved) {
+          resolved = true
+          clearTimeout(timeout)
+          reject(err)
+        }
+      })
+
+      child.on("close", (code) => {
+        if (!resolved) {
+          resolved = true
+          clearTimeout(timeout)
+          resolve({ stdout, stderr, exitCode: code ?? 1 })
+        }
+      })
+    })
+  }
+
+  /**
+   * Resolve the isolation mode once per client, probing bubblewrap and then
+   * unshare when set to "auto".
+   */
+  private isolation(): Promise<LocalSandboxIsolation> {
+    if (!this.resolvedIsolation) {
+      this.resolvedIsolation = this.detectIsolation().catch((err) => {
+        this.resolvedIsolation = undefined
+        throw err
+      })
+    }
+    return this.resolvedIsolation
+  }
+
+  private async detectIsolation(): Promise<LocalSandboxIsolation> {
+    await mkdir(this.homeDir, { recursive: true })
+    if (this.isolationSetting !== "auto") return this.isolationSetting
+
+    const probes: Array<[LocalSandboxIsolation, string, string[]]> = [
+      ["bwrap", "bwrap", ["--dev-bind", "/", "/", "--bind", this.root, this.homeDir, "true"]],
+      ["unshare", "unshare", ["--user", "--map-root-user", "--mount", "true"]],
+    ]
+    for (const [isolation, command, args] of probes) {
+      const result = await this.host(command, args, 10000).catch(() => undefined)
+      if (result?.exitCode === 0) {
+        log.info("Local sandboxes are isolated with a private mount namespace", { isolation })
+        return isolation
+      }
+    }
+    log.warn("Neither bubblewrap nor unshare is usable; local sandbox paths are rewritten instead", {
+      homeDir: this.homeDir,
+    })
+    return "none"
+  }
+
+  /**
+   * SIGKILL every host process started by a sandbox's commands.
+   */
+  private async killProcesses(name: string): Promise<void> {
+    const marker = `${SANDBOX_ENV_KEY}=${name}`
+    const pids = (await readdir("/proc").catch(() => [])).filter((entry) => /^\d+$/.test(entry))
+    let killed = 0
+    for (const pid of pids) {
+      if (Number(pid) === process.pid) continue
+      const environ = await readFile(`/proc/${pid}/environ`, "utf-8").catch(() => "")
+      if (!environ.split("\0").includes(marker)) continue
+      try {
+        process.kill(Number(pid), "SIGKILL")
+        killed += 1
+      } catch {
+        // Already gone.
+      }
+    }
+    if (killed > 0) log.info("Killed local sandbox processes", { name, killed })
+  }
+
+  async get(name: string): Promise<SandboxInfo | null> {
+    const exists = await stat(this.sandboxDir(name)).then((info) => info.isDirectory(), () => false)
+    if (!exists) return null
+    const stopped = await stat(this.stoppedMarker(name)).then(() => true, () => false)
+    return { id: name, name, status: stopped ? "cold" : "running" }
+  }
+
+  async create(name: string): Promise<SandboxInfo> {
+    log.info("Creating local sandbox", { name })
+    await mkdir(join(this.root, "boxes"), { recursive: true })
+    try {
+      await mkdir(this.sandboxDir(name))
+    } catch (err) {
+      throw new Error(`Failed to create local sandbox ${name}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    return { id: name, name, status: "running" }
+  }
+
+  async delete(name: string): Promise<void> {
+    log.info("Deleting local sandbox", { name })
+    await this.killProcesses(name)
+    await this.removeTree(this.sandboxDir(name))
+    await rm(this.stoppedMarker(name), { force: true })
+  }
+
+  /**
+   * Move the sandbox directory to the new name. Running commands are killed,
+   * since they are found by the old name.
+   */
+  async rename(name: string, newName: string): Promise<void> {
+    log.info("Renaming local sandbox", { name, newName })
+    if (await this.get(newName)) {
+      throw new Error(`Failed to rename local sandbox ${name} to ${newName}: it already exists`)
+    }
+    const stopped = (await this.get(name))?.status === "cold"
+    await this.killProcesses(name)
+    try {
+      await rename(this.sandboxDir(name), this.sandboxDir(newName))
+    } catch (err) {
+      throw new Error(`Failed to rename local sandbox ${name} to ${newName}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    if (stopped) {
+      await writeFile(this.stoppedMarker(newName), "")
+      await rm(this.stoppedMarker(name), { force: true })
+    }
+  }
+
+  /**
+   * Stop a sandbox by killing its processes; its directory is kept.
+   */
+  async stop(name: string): Promise<void> {
+    log.info("Stopping local sandbox", { name })
+    await this.killProcesses(name)
+    await writeFile(this.stoppedMarker(name), "")
+  }
+
+  async start(name: string): Promise<void> {
+    if (!(await this.get(name))) {
+      throw new Error(`Failed to start local sandbox ${name}: it does not exist`)
+    }
+    log.info("Starting local sandbox", { name })
+    await rm(this.stoppedMarker(name), { force: true })
+  }
+
+  async ensureRunning(name: string): Promise<SandboxEnsureResult> {
+    const existing = await this.get(name)
+    if (!existing) {
+      await this.create(name)
+      return "created"
+    }
+    if (existing.status !== "running") {
+      await this.start(name)
+      return "started"
+    }
+    return "running"
+  }
+
+  /**
+   * Run a command as a child process. Spawning locally has no transient
+   * failures, so `maxRetries` is ignored.
+   */
+  async exec(
+    name: string,
+    command: string[],
+    options: SandboxExecOptions = {}
+  ): Promise<SandboxExecResult> {
+    const existing = await this.get(name)
+    if (existing?.status !== "running") {
+      throw new Error(`Local sandbox ${name} is ${existing ? "stopped" : "missing"}`)
+    }
+
+    const box = this.sandboxDir(name)
+    const isolation = await this.isolation()
+    // Without a mount namespace, homeDir only exists as the sandbox directory on the host.
+    const rewrite = isolation === "none"
+      ? (value: string) => value.split(this.homeDir).join(box)
+      : (value: string) => value
+    const dir = options.dir ?? this.homeDir
+
+    const env: Record<string, string> = {
+      PATH: this.defaultPath,
+      HOME: this.homeDir,
+      NPM_CONFIG_PREFIX: `${this.homeDir}/.npm-global`,
+      ...options.env,
+      [SANDBOX_ENV_KEY]: name,
+    }
+    for (const key of Object.keys(env)) {
+      env[key] = rewrite(env[key] ?? "")
+    }
+
+    let argv: string[]
+    if (isolation === "bwrap") {
+      argv = ["bwrap", "--dev-bind", "/", "/", "--bind", box, this.homeDir, "--chdir", dir, "--", ...command]
+    } else if (isolation === "unshare") {
+      argv = ["unshare", "--user", "--map-root-user", "--mount", "sh", "-c", UNSHARE_SCRIPT, "sh", box, this.homeDir, dir, ...command]
+    } else {
+      argv = command.map(rewrite)
+    }
+
+    const timeoutMs = options.timeoutMs ?? 30000
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(options.signal.reason)
+        return
+      }
+
+      const child = spawn(argv[0] ?? "", argv.slice(1), {
+        cwd: isolation === "none" ? rewrite(dir) : undefined,
+        env,
+        stdio: "pipe",
+      })
+      let stdout = ""
+      let stderr = ""
+      let resolved = false
+
+      const timeout = setTimeout(() => {
+        if (!resolved) {
+          resolved = true
+          options.signal?.removeEventListener("abort", onAbort)
+          child.kill("SIGTERM")
+          reject(new Error(`Local sandbox exec timed out after ${timeoutMs}ms`))
+        }
+      }, timeoutMs)
+
+      const onAbort = () => {
+        if (!resolved) {
+          resolved = true
+          clearTimeout(timeout)
+          child.kill("SIGTERM")
+          reject(options.signal?.reason)
+        }
+      }
+      options.signal?.addEventListener("abort", onAbort, { once: true })
+
+      // Decode as a stream so a multi-byte character split across chunks stays
+      // intact; the detached job poller counts output offsets in bytes.
+      child.stdout.setEncoding("utf8")
+      child.stderr.setEncoding("utf8")
+      child.stdout.on("data", (chunk: string) => {
+        stdout += chunk
+        options.onStdout?.(chunk)
+      })
+      child.stderr.on("data", (chunk: string) => { stderr += chunk })
+
+      child.on("error", (err) => {
+        if (!resolved) {
+          resolved = true
+          clearTimeout(timeout)
+          options.signal?.removeEventListener("abort", onAbort)
+          reject(err)
+        }
+      })
+
+      child.on("close", (code) => {
+        if (!resolved) {
+          resolved = true
+          clearTimeout(timeout)
+          options.signal?.removeEventListener("abort", onAbort)
+          resolve({ stdout, stderr, exitCode: code ?? 1 })
+        }
+      })
+
+      child.stdin.on("error", () => {})
+      if (options.stdin !== undefined) {
+        child.stdin.write(rewrite(options.stdin))
+      }
+      child.stdin.end()
+    })
+  }
+
+  async downloadFileStream(
+    name: string,
+    path: string,
+    options: SandboxFileTransferOptions = {}
+  ): Promise<Readable> {
+    const maxBytes = options.maxBytes ?? SANDBOX_FILE_MAX_BYTES
+    const expected = await statSandboxFile(this, name, path)
+    assertWithinTransferLimit(path, expected.size, maxBytes)
+
+    const verifier = createVerifyingStream(path, expected, maxBytes)
+    const file = createReadStream(this.hostPath(name, path))
+    file.on("error", (err) => verifier.destroy(err))
+    verifier.on("close", () => file.destroy())
+    return file.pipe(verifier)
+  }
+
+  async downloadFile(name: string, path: string, options?: SandboxFileTransferOptions): Promise<Buffer> {
+    try {
+      return await readStreamToBuffer(await this.downloadFileStream(name, path, options))
+    } catch (err) {
+      throw new Error(`Failed to download file ${path}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  async uploadFile(
+    name: string,
+    path: string,
+    data: Buffer,
+    options: SandboxFileTransferOptions = {}
+  ): Promise<void> {
+    assertWithinTransferLimit(path, data.length, options.maxBytes ?? SANDBOX_FILE_MAX_BYTES)
+    const target = this.hostPath(name, path)
+    try {
+      await mkdir(dirname(target), { recursive: true })
+      await writeFile(target, data)
+    } catch (err) {
+      throw new Error(`Failed to upload file ${path}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    await verifySandboxUpload(this, name, path, data)
+  }
+
+  async list(prefix?: string): Promise<SandboxInfo[]> {
+    const entries = await readdir(join(this.root, "boxes"), { withFileTypes: true }).catch(() => [])
+    const sandboxes: SandboxInfo[] = []
+    for (const entry of entries) {
+      if (!entry.isDirectory() || !entry.name.startsWith(prefix ?? "jane-")) continue
+      const info = await this.get(entry.name)
+      if (info) sandboxes.push(info)
+    }
+    return sandboxes
+  }
+
+  /**
+   * Copy the sandbox directory to `checkpoints/<id>` under the root. Copies
+   * are kept until removed by hand.
+   */
+  async checkpoint(name: string): Promise<string> {
+    const checkpointId = `${name}-${Date.now().toString(36)}`
+    log.info("Checkpointing local sandbox", { name, checkpointId })
+    await mkdir(join(this.root, "checkpoints"), { recursive: true })
+    const result = await this.host("cp", ["-a", this.sandboxDir(name), this.checkpointDir(checkpointId)])
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to checkpoint local sandbox ${name}: ${result.stderr}`)
+    }
+    return checkpointId
+  }
+
+  async createFromCheckpoint(name: string, source: string, checkpointId: string): Promise<SandboxInfo> {
+    log.info("Creating local sandbox from checkpoint", { name, source, checkpointId })
+    await mkdir(join(this.root, "boxes"), { recursive: true })
+    if (await this.get(name)) {
+      throw new Error(`Failed to create local sandbox ${name}: it already exists`)
+    }
+    // The checkpoint is only used once, so it becomes the new sandbox as is.
+    try {
+      await rename(this.checkpointDir(checkpointId), this.sandboxDir(name))
+    } catch (err) {
+      throw new Error(`Failed to create local sandbox ${name} from ${checkpointId}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    return { id: name, name, status: "running" }
+  }
+
+  async setNetworkPolicy(name: string, rules: SandboxNetworkPolicyRule[]): Promise<void> {
+    log.debug("Local sandboxes don't enforce network policy; commands use the host network", {
+      name,
+      ruleCount: rules.length,
+    })
+  }
+
+  /**
+   * Remove a directory tree, first making it writable: tools such as Go
+   * leave read-only directories behind that would otherwise block removal.
+   */
+  private async removeTree(path: string): Promise<void> {
+    await this.host("chmod", ["-R", "u+w", path]).catch(() => undefined)
+    await rm(path, { recursive: true, force: true })
+  }
+}
@@ -0,0 +1,38 @@
+import assert from "node:assert"
+import { describe, it } from "node:test"
+import { Counter, Gauge, Histogram, renderMetrics } from "./metrics.js"
+
+describe("metrics", () => {
+  it("renders counters with escaped labels", () => {
+    const counter = new Counter("test_counter_total", "A test counter.")
+    counter.inc({ status: "ok" })
+    counter.inc({ status: "ok" }, 2)
+    counter.inc({ status: 'say "hi"' })
+
+    assert.strictEqual(counter.get({ status: "ok" }), 3)
+    const output = renderMetrics()
+    assert.match(output, /# HELP test_counter_total A test counter\.\n# TYPE test_counter_total counter\n/)
+    assert.match(output, /test_counter_total\{status="ok"\} 3\n/)
+    assert.match(output, /test_counter_total\{status="say \\"hi\\""\} 1\n/)
+  })
+
+  it("renders cumulative histogram buckets", () => {
+    const histogram = new Histogram("test_duration_seconds", "A test histogram.", [1, 5])
+    histogram.observe({ mode: "reuse" }, 0.5)
+    histogram.observe({ mode: "reuse" }, 3)
+    histogram.observe({ mode: "reuse" }, 10)
+
+    const output = renderMetrics()
+    assert.match(output, /test_duration_seconds_bucket\{mode="reuse",le="1"\} 1\n/)
+    assert.match(output, /test_duration_seconds_bucket\{mode="reuse",le="5"\} 2\n/)
+    assert.match(output, /test_duration_seconds_bucket\{mode="reuse",le="\+Inf"\} 3\n/)
+    assert.match(output, /test_duration_seconds_sum\{mode="reuse"\} 13.5\n/)
+    assert.match(output, /test_duration_seconds_count\{mode="reuse"\} 3\n/)
+  })
+
+  it("renders gauges", () => {
+    const gauge = new Gauge("test_depth", "A test gauge.")
+    gauge.set(4)
+    assert.match(renderMetrics(), /test_depth 4\n/)
+  })
+})
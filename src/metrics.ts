@@ -0,0 +1,159 @@
+/**
+ * Prometheus metrics.
+ *
+ * A small in-process registry rendered in the Prometheus text exposition
+ * format and served at `/metrics` by the admin API. Metrics are defined at the
+ * bottom of this file so every series the process can emit is listed in one place.
+ */
+
+type Labels = Record<string, string>
+
+interface Metric {
+  render(): string[]
+}
+
+const registry: Metric[] = []
+
+const DEFAULT_DURATION_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600, 1800]
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ""
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`]
+}
+
+export class Counter {
+  private readonly values = new Map<string, { labels: Labels; value: number }>()
+
+  constructor(readonly name: string, private readonly help: string) {
+    registry.push(this)
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels)
+    const entry = this.values.get(key)
+    if (entry) entry.value += value
+    else this.values.set(key, { labels, value })
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, "counter")
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`)
+    }
+    return lines
+  }
+}
+
+export class Gauge {
+  private value = 0
+
+  constructor(readonly name: string, private readonly help: string) {
+    registry.push(this)
+  }
+
+  set(value: number): void {
+    this.value = value
+  }
+
+  get(): number {
+    return this.value
+  }
+
+  render(): string[] {
+    return [...header(this.name, this.help, "gauge"), `${this.name} ${this.value}`]
+  }
+}
+
+export class Histogram {
+  private readonly values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>()
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[] = DEFAULT_DURATION_BUCKETS
+  ) {
+    registry.push(this)
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels)
+    let entry = this.values.get(key)
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.values.set(key, entry)
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.counts[index] = (entry.counts[index] ?? 0) + 1
+    })
+    entry.sum += value
+    entry.count += 1
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, "histogram")
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index] ?? 0}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`)
+    }
+    return lines
+  }
+}
+
+export function renderMetrics(): string {
+  return registry.flatMap((metric) => metric.render()).join("\n") + "\n"
+}
+
+export const orchestratorTurns = new Counter(
+  "janebot_orchestrator_turns_total",
+  "Orchestrator turns by outcome (completed, failed, aborted)."
+)
+export const orchestratorTurnDuration = new Histogram(
+  "janebot_orchestrator_turn_duration_seconds",
+  "Wall-clock time of orchestrator turns, including subagent jobs and Slack replies."
+)
+export const subagentJobs = new Counter(
+  "janebot_subagent_jobs_total",
+  "Finished subagent jobs by status (completed, failed, aborted)."
+)
+export const sandboxReadyDuration = new Histogram(
+  "janebot_sandbox_ready_duration_seconds",
+  "Time to make a sandbox ready for a job, by mode (create, start, reuse)."
+)
+export const sandboxExecRetries = new Counter(
+  "janebot_sandbox_exec_retries_total",
+  "Sandbox exec attempts retried after a transient error, by backend."
+)
+export const followUpQueueDepth = new Gauge(
+  "janebot_follow_up_queue_depth",
+  "Follow-up messages queued behind running turns, across all threads."
+)
+export const slackUploadFailures = new Counter(
+  "janebot_slack_upload_failures_total",
+  "Generated files that failed to upload to Slack."
+)
+
+export function observeOrchestratorTurn(outcome: "completed" | "failed" | "aborted", durationMs: number): void {
+  orchestratorTurns.inc({ outcome })
+  orchestratorTurnDuration.observe({ outcome }, durationMs / 1000)
+}
@@ -5,19 +5,45 @@ import {
   type AgentSession,
   type ToolDefinition,
 } from "@mariozechner/pi-coding-agent"
+import { createHash } from "crypto"
+import { join } from "path"
 
+import { createUserAbortError, isExpectedCancellationError } from "./cancellation.js"
 import { config } from "./config.js"
 import { runCodingSubagent, type RunCodingSubagentResult } from "./coding-subagent.js"
 import type { GeneratedFile } from "./pi-output.js"
+import { formatPiProgress, type PiProgress } from "./pi-progress.js"
 import * as log from "./logger.js"
+import type { PromptImage } from "./slack-files.js"
+import { getSessionStore, type PersistedOrchestratorSession } from "./session-store.js"
+import { recordUsage, sumAssistantUsage } from "./usage.js"
+
+export interface ProgressUpdateOptions {
+  /** Updates sharing a status key replace the previous message instead of posting a new one. */
+  statusKey?: string
+  /** Last update for this status key; the job it tracks has ended. */
+  finished?: boolean
+}
+
+export type ProgressCallback = (message: string, options?: ProgressUpdateOptions) => Promise<void>
+
+// Slack rate-limits chat.update, so live status edits are throttled.
+const STATUS_UPDATE_INTERVAL_MS = 3000
+const STATUS_REFRESH_INTERVAL_MS = 15000
 
 interface OrchestratorSession {
   key: string
   session: AgentSession
   generatedFiles: GeneratedFile[]
-  progressCallback?: (message: string) => Promise<void>
+  /** Diff stat summaries from this turn's subagent jobs. */
+  diffSummaries: string[]
+  progressCallback?: ProgressCallback
   subagentSystemPrompt: string
+  /** Slack user whose turn is currently running. */
+  userId?: string
+  sessionFile: string
   lastSeenEventTs?: string
+  createdAt: number
 }
 
 export interface OrchestratorInput {
@@ -26,14 +52,16 @@ export interface OrchestratorInput {
   userId: string
   eventTs: string
   message: string
+  images?: PromptImage[]
   systemPrompt: string
   subagentSystemPrompt: string
-  progressCallback?: (message: string) => Promise<void>
+  progressCallback?: ProgressCallback
 }
 
 export interface OrchestratorResult {
   content: string
   generatedFiles: GeneratedFile[]
+  diffSummaries: string[]
   sessionCreated: boolean
 }
 
@@ -43,12 +71,97 @@ function makeKey(channelId: string, threadTs: string): string {
   return `${channelId}:${threadTs}`
 }
 
+function makeSessionFile(key: string, suffix?: string): string {
+  const hash = createHash("sha256").update(key).digest("hex").slice(0, 16)
+  return join(config.orchestratorSessionDir, suffix ? `orch_${hash}_${suffix}.jsonl` : `orch_${hash}.jsonl`)
+}
+
+function loadPersistedSession(channelId: string, threadTs: string): PersistedOrchestratorSession | undefined {
+  try {
+    return getSessionStore().getOrchestratorSession(channelId, threadTs)
+  } catch (err) {
+    log.warn("Failed to load orchestrator session from SQLite", {
+      threadKey: makeKey(channelId, threadTs),
+      error: err instanceof Error ? err.message : String(err),
+    })
+    return undefined
+  }
+}
+
+function persistSession(channelId: string, threadTs: string, session: OrchestratorSession): void {
+  try {
+    getSessionStore().upsertOrchestratorSession({
+      key: session.key,
+      channelId,
+      threadTs,
+      sessionFile: session.sessionFile,
+      lastSeenEventTs: session.lastSeenEventTs,
+      createdAt: session.createdAt,
+      updatedAt: Date.now(),
+    })
+  } catch (err) {
+    log.warn("Failed to persist orchestrator session to SQLite", {
+      threadKey: session.key,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  }
+}
+
 export function hasOrchestratorSession(channelId: string, threadTs: string): boolean {
-  return sessions.has(makeKey(channelId, threadTs))
+  if (sessions.has(makeKey(channelId, threadTs))) return true
+  return loadPersistedSession(channelId, threadTs) !== undefined
+}
+
+/**
+ * Start the thread's orchestrator over with an empty transcript. The old
+ * session file is kept on disk; the next turn opens a new one and, with no
+ * last-seen event, gets the whole Slack thread as history. Refused while a
+ * turn is running.
+ */
+export function resetOrchestratorSession(channelId: string, threadTs: string): "reset" | "busy" | "not_found" {
+  const key = makeKey(channelId, threadTs)
+  const cached = sessions.get(key)
+  if (cached?.session.isStreaming) return "busy"
+
+  const persisted = loadPersistedSession(channelId, threadTs)
+  if (!cached && !persisted) return "not_found"
+
+  sessions.delete(key)
+  const sessionFile = makeSessionFile(key, Date.now().toString(36))
+  try {
+    getSessionStore().upsertOrchestratorSession({
+      key,
+      channelId,
+      threadTs,
+      sessionFile,
+      lastSeenEventTs: undefined,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    })
+  } catch (err) {
+    log.warn("Failed to persist orchestrator reset to SQLite", {
+      threadKey: key,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  }
+  log.info("Reset orchestrator session", { threadKey: key, previousSessionFile: persisted?.sessionFile, sessionFile })
+  return "reset"
 }
 
 export function getLastSeenEventTs(channelId: string, threadTs: string): string | undefined {
-  return sessions.get(makeKey(channelId, threadTs))?.lastSeenEventTs
+  const cached = sessions.get(makeKey(channelId, threadTs))
+  if (cached) return cached.lastSeenEventTs
+  return loadPersistedSession(channelId, threadTs)?.lastSeenEventTs
+}
+
+/**
+ * Abort every running orchestrator turn, for shutdown. Resolves once they
+ * have stopped; the aborted turns reject with a cancellation error.
+ */
+export async function abortOrchestratorTurns(): Promise<void> {
+  await Promise.all(Array.from(sessions.values(), async (session) => {
+    if (session.session.isStreaming) await session.session.abort()
+  }))
 }
 
 function formatSubagentResult(result: RunCodingSubagentResult): string {
@@ -62,6 +175,7 @@ function formatSubagentResult(result: RunCodingSubagentResult): string {
   if (result.generatedFiles.length > 0) {
     parts.push(`artifacts=${result.generatedFiles.map((f) => f.filename).join(",")}`)
   }
+  if (result.diffSummary) parts.push(`changes=${result.diffSummary}`)
   return parts.join("\n")
 }
 
@@ -73,6 +187,7 @@ function toSafeDetails(result: RunCodingSubagentResult): Record<string, unknown>
     created: result.created,
     sandboxName: result.sandboxName,
     content: result.content,
+    diffSummary: result.diffSummary,
     generatedFiles: result.generatedFiles.map((file) => ({
       path: file.path,
       filename: file.filename,
@@ -139,33 +254,45 @@ function buildOrchestratorTool(
   channelId: string,
   threadTs: string,
   generatedFiles: GeneratedFile[],
+  diffSummaries: string[],
   getSubagentSystemPrompt: () => string,
-  getProgressCallback: () => ((message: string) => Promise<void>) | undefined,
+  getProgressCallback: () => ProgressCallback | undefined,
+  getUserId: () => string | undefined,
 ): ToolDefinition {
   return {
     name: "run_coding_subagent",
     label: "Run Coding Subagent",
     description:
       "Delegate coding work to the thread's persistent sandbox subagent. " +
-      "Use action=send with an instruction for coding tasks. Use status/abort for control.",
+      "Use action=send with an instruction for coding tasks. Use status/abort for control. " +
+      "Use action=reset only when the user asks for a fresh sandbox or it is beyond repair.",
     parameters: {
       type: "object",
       properties: {
         action: {
           type: "string",
-          enum: ["send", "status", "abort"],
+          enum: ["send", "status", "abort", "reset"],
           description: "Subagent action",
         },
         instruction: {
           type: "string",
           description: "Instruction text for action=send",
         },
+        images: {
+          type: "array",
+          items: { type: "string" },
+          description: "For action=send: workspace-relative paths of attached images (e.g. inputs/screenshot.png) for the subagent to look at",
+        },
       },
       required: ["action"],
       additionalProperties: false,
     } as any,
-    async execute(_toolCallId, params, signal) {
-      const parsedParams = params as { action: "send" | "status" | "abort"; instruction?: string }
+    async execute(toolCallId, params, signal) {
+      const parsedParams = params as {
+        action: "send" | "status" | "abort" | "reset"
+        instruction?: string
+        images?: string[]
+      }
 
       if (signal?.aborted) {
         return {
@@ -182,8 +309,8 @@ function buildOrchestratorTool(
         }
       }
 
-      if (parsedParams.action === "abort") {
-        const result = await runCodingSubagent({ action: "abort", channelId, threadTs })
+      if (parsedParams.action === "abort" || parsedParams.action === "reset") {
+        const result = await runCodingSubagent({ action: parsedParams.action, channelId, threadTs })
         return {
           content: [{ type: "text", text: formatSubagentResult(result) }],
           details: toSafeDetails(result),
@@ -208,15 +335,32 @@ function buildOrchestratorTool(
         }
       }
 
-      const result = await runCodingSubagent({
-        action: "message",
-        channelId,
-        threadTs,
-        message: instruction,
-        systemPrompt: getSubagentSystemPrompt(),
-      })
+      const status = createStatusReporter(getProgressCallback(), `subagent:${toolCallId}`)
+      let result: RunCodingSubagentResult
+      try {
+        result = await runCodingSubagent({
+          action: "message",
+          channelId,
+          threadTs,
+          message: instruction,
+          systemPrompt: getSubagentSystemPrompt(),
+          onProgress: status.update,
+          userId: getUserId(),
+          images: parsedParams.images,
+        })
+      } catch (err) {
+        await status.finish(true)
+        if (!isExpectedCancellationError(err)) throw err
+        const aborted: RunCodingSubagentResult = { status: "aborted", generatedFiles: [] }
+        return {
+          content: [{ type: "text", text: formatSubagentResult(aborted) }],
+          details: toSafeDetails(aborted),
+        }
+      }
+      await status.finish(result.status !== "completed")
 
       generatedFiles.push(...result.generatedFiles)
+      if (result.diffSummary) diffSummaries.push(result.diffSummary)
 
       return {
         content: [{ type: "text", text: formatSubagentResult(result) }],
@@ -226,14 +370,65 @@ function buildOrchestratorTool(
   }
 }
 
+/**
+ * Mirror subagent progress into a single Slack status message, throttled so a
+ * busy Pi run doesn't trip chat.update rate limits.
+ */
+function createStatusReporter(
+  progressCallback: ProgressCallback | undefined,
+  statusKey: string,
+): { update: (progress: PiProgress) => void; finish: (failed: boolean) => Promise<void> } {
+  let latest: PiProgress | undefined
+  let lastPublishedAt = 0
+  let queue: Promise<void> = Promise.resolve()
+
+  const publish = (force: boolean) => {
+    if (!progressCallback || !latest) return
+    const now = Date.now()
+    if (!force && now - lastPublishedAt < STATUS_UPDATE_INTERVAL_MS) return
+    lastPublishedAt = now
+    const text = formatPiProgress(latest, now)
+    // Chain updates so the initial post lands before any in-place edits.
+    queue = queue
+      .then(() => progressCallback(text, { statusKey, finished: latest?.finishedAt !== undefined }))
+      .catch((err) => {
+        log.debug("Failed to publish subagent status", {
+          statusKey,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      })
+  }
+
+  const refresh = setInterval(() => publish(false), STATUS_REFRESH_INTERVAL_MS)
+
+  return {
+    update(progress) {
+      latest = progress
+      publish(false)
+    },
+    async finish(failed) {
+      clearInterval(refresh)
+      if (latest) {
+        latest.finishedAt = Date.now()
+        latest.failed = failed
+        publish(true)
+      }
+      await queue
+    },
+  }
+}
+
 async function createOrchestratorSession(
   channelId: string,
   threadTs: string,
   systemPrompt: string,
   subagentSystemPrompt: string,
+  persisted: PersistedOrchestratorSession | undefined,
 ): Promise<OrchestratorSession> {
   const key = makeKey(channelId, threadTs)
+  const sessionFile = persisted?.sessionFile ?? makeSessionFile(key)
   const generatedFiles: GeneratedFile[] = []
+  const diffSummaries: string[] = []
 
   const loader = new DefaultResourceLoader({
     cwd: config.workspaceDir,
@@ -257,8 +452,10 @@ async function createOrchestratorSession(
       channelId,
       threadTs,
       generatedFiles,
+      diffSummaries,
       () => sessions.get(key)?.subagentSystemPrompt ?? subagentSystemPrompt,
-      () => sessions.get(key)?.progressCallback
+      () => sessions.get(key)?.progressCallback,
+      () => sessions.get(key)?.userId,
     ),
   ]
 
@@ -267,14 +464,27 @@ async function createOrchestratorSession(
     resourceLoader: loader,
     tools: [],
     customTools,
-    sessionManager: SessionManager.inMemory(),
+    sessionManager: SessionManager.open(sessionFile, config.orchestratorSessionDir),
   })
 
   const orchestratorSession: OrchestratorSession = {
     key,
     session,
     generatedFiles,
+    diffSummaries,
     subagentSystemPrompt,
+    sessionFile,
+    lastSeenEventTs: persisted?.lastSeenEventTs,
+    createdAt: persisted?.createdAt ?? Date.now(),
+  }
+
+  if (persisted) {
+    log.debug("Rehydrated orchestrator session from disk", {
+      threadKey: key,
+      sessionFile,
+      messageCount: session.messages.length,
+      lastSeenEventTs: persisted.lastSeenEventTs,
+    })
   }
 
   sessions.set(key, orchestratorSession)
@@ -293,13 +503,19 @@ async function getOrCreateSession(
     return { session: existing, created: false }
   }
 
-  const created = await createOrchestratorSession(
+  // Sessions are rehydrated lazily so a restart doesn't pay for threads nobody returns to.
+  const persisted = loadPersistedSession(channelId, threadTs)
+  const session = await createOrchestratorSession(
     channelId,
     threadTs,
     systemPrompt,
     subagentSystemPrompt,
+    persisted,
   )
-  return { session: created, created: true }
+  if (!persisted) {
+    persistSession(channelId, threadTs, session)
+  }
+  return { session, created: !persisted }
 }
 
 export async function runOrchestratorTurn(input: OrchestratorInput): Promise<OrchestratorResult> {
@@ -317,23 +533,52 @@ export async function runOrchestratorTurn(input: OrchestratorInput): Promise<Orc
 
   session.progressCallback = input.progressCallback
   session.subagentSystemPrompt = input.subagentSystemPrompt
+  session.userId = input.userId
   session.generatedFiles.length = 0
+  session.diffSummaries.length = 0
 
   const beforeCount = session.session.messages.length
-  await session.session.prompt(input.message)
+  try {
+    await session.session.prompt(input.message, input.images?.length ? { images: input.images } : undefined)
+  } finally {
+    // Failed turns still spent tokens on whatever the model produced before the error.
+    const { usage, model } = sumAssistantUsage(session.session.messages.slice(beforeCount))
+    recordUsage({
+      threadKey: session.key,
+      channelId: input.channelId,
+      threadTs: input.threadTs,
+      userId: input.userId,
+      source: "orchestrator",
+      jobId: input.eventTs,
+      model,
+      inputTokens: usage.input,
+      outputTokens: usage.output,
+      cacheReadTokens: usage.cacheRead,
+      cacheWriteTokens: usage.cacheWrite,
+      costUsd: usage.cost,
+      createdAt: Date.now(),
+    })
+  }
 
   session.lastSeenEventTs = input.eventTs
+  persistSession(input.channelId, input.threadTs, session)
   log.debug("Orchestrator prompt complete", {
     channelId: input.channelId,
     threadTs: input.threadTs,
     sessionCreated: created,
   })
 
+  const last = session.session.messages.at(-1) as { role?: string; stopReason?: string } | undefined
+  if (last?.role === "assistant" && last.stopReason === "aborted") {
+    throw createUserAbortError("Orchestrator turn aborted")
+  }
+
   const content = extractAssistantText(session.session.messages, beforeCount) || "Done."
 
   return {
     content,
     generatedFiles: [...session.generatedFiles],
+    diffSummaries: [...session.diffSummaries],
     sessionCreated: created,
   }
 }
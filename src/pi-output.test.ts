@@ -21,6 +21,23 @@ describe("parsePiOutput", () => {
     assert.strictEqual(result.model, "claude-opus-4-6")
   })
 
+  it("sums usage across assistant messages in agent_end", () => {
+    const usage = (input: number, output: number, total: number) => ({
+      input, output, cacheRead: 1, cacheWrite: 2, totalTokens: input + output, cost: { total },
+    })
+    const output = JSON.stringify({
+      type: "agent_end",
+      messages: [
+        { role: "user", content: [{ type: "text", text: "hi" }] },
+        { role: "assistant", content: [], usage: usage(100, 20, 0.5) },
+        { role: "toolResult", content: [] },
+        { role: "assistant", content: [{ type: "text", text: "done" }], usage: usage(150, 30, 0.25) },
+      ],
+    })
+    const result = parsePiOutput(output)
+    assert.deepStrictEqual(result.usage, { input: 250, output: 50, cacheRead: 2, cacheWrite: 4, cost: 0.75 })
+  })
+
   it("throws when no agent_end event present", () => {
     const output = [
       JSON.stringify({ type: "session", version: 3, id: "test-session" }),
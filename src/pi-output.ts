@@ -1,4 +1,5 @@
 import * as log from "./logger.js"
+import { sumAssistantUsage, type PiUsage } from "./usage.js"
 
 const DEBUG_PI_OUTPUT = process.env.DEBUG_PI_OUTPUT === "1"
 
@@ -34,6 +35,7 @@ export interface GeneratedFile {
 export function parsePiOutput(stdout: string): {
   content: string
   model: string | undefined
+  usage: PiUsage
 } {
   if (DEBUG_PI_OUTPUT) {
     log.info("Raw pi stdout", { length: stdout.length, preview: stdout.slice(0, 2000) })
@@ -75,6 +77,7 @@ export function parsePiOutput(stdout: string): {
       (e as PiMessageStartEvent).message?.role === "assistant"
   )
   const model = firstAssistant?.message?.model
+  const { usage } = sumAssistantUsage(agentEnd.messages)
 
-  return { content, model }
+  return { content, model, usage }
 }
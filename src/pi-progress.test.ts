@@ -0,0 +1,87 @@
+import { describe, it } from "node:test"
+import assert from "node:assert"
+import {
+  applyPiEvent,
+  createPiEventStream,
+  createPiProgress,
+  formatElapsed,
+  formatPiProgress,
+} from "./pi-progress.js"
+
+describe("createPiEventStream", () => {
+  it("buffers partial lines across chunks", () => {
+    const events: string[] = []
+    const push = createPiEventStream((event) => events.push(event.type))
+    const line = JSON.stringify({ type: "agent_start" })
+
+    push(line.slice(0, 5))
+    assert.deepStrictEqual(events, [])
+
+    push(`${line.slice(5)}\n${JSON.stringify({ type: "turn_start" })}\nnot json\n`)
+    assert.deepStrictEqual(events, ["agent_start", "turn_start"])
+  })
+})
+
+describe("applyPiEvent", () => {
+  it("tracks current tool and files touched", () => {
+    const progress = createPiProgress(0)
+
+    assert.strictEqual(applyPiEvent(progress, {
+      type: "tool_execution_start",
+      toolName: "edit",
+      args: { path: "src/index.ts" },
+    }), true)
+    applyPiEvent(progress, { type: "tool_execution_start", toolName: "write", args: { path: "src/index.ts" } })
+    applyPiEvent(progress, { type: "tool_execution_start", toolName: "read", args: { path: "README.md" } })
+    applyPiEvent(progress, { type: "tool_execution_start", toolName: "bash", args: { command: "npm test\nnpm run lint" } })
+
+    assert.strictEqual(progress.toolCalls, 4)
+    assert.strictEqual(progress.currentTool, "bash")
+    assert.strictEqual(progress.currentToolDetail, "npm test")
+    assert.deepStrictEqual(progress.filesTouched, ["src/index.ts"])
+  })
+
+  it("only reports message updates when the phase changes", () => {
+    const progress = createPiProgress(0)
+    const thinking = { type: "message_update", assistantMessageEvent: { type: "thinking_delta" } }
+
+    assert.strictEqual(applyPiEvent(progress, thinking), true)
+    assert.strictEqual(applyPiEvent(progress, thinking), false)
+    assert.strictEqual(applyPiEvent(progress, { type: "message_update", assistantMessageEvent: { type: "text_delta" } }), true)
+    assert.strictEqual(progress.phase, "writing")
+    assert.strictEqual(applyPiEvent(progress, { type: "agent_end" }), false)
+  })
+})
+
+describe("formatElapsed", () => {
+  it("formats seconds, minutes and hours", () => {
+    assert.strictEqual(formatElapsed(4500), "4s")
+    assert.strictEqual(formatElapsed(135000), "2m 15s")
+    assert.strictEqual(formatElapsed(3780000), "1h 3m")
+  })
+})
+
+describe("formatPiProgress", () => {
+  it("renders running status with current tool", () => {
+    const progress = createPiProgress(0)
+    applyPiEvent(progress, { type: "tool_execution_start", toolName: "bash", args: { command: "npm test" } })
+
+    const text = formatPiProgress(progress, 65000)
+    assert.match(text, /working for 1m 5s/)
+    assert.match(text, /Current: `bash` npm test/)
+    assert.match(text, /Tool calls: 1/)
+  })
+
+  it("renders a finished summary and truncates the file list", () => {
+    const progress = createPiProgress(0)
+    for (let i = 0; i < 7; i++) {
+      applyPiEvent(progress, { type: "tool_execution_start", toolName: "write", args: { path: `f${i}.ts` } })
+    }
+    progress.finishedAt = 30000
+
+    const text = formatPiProgress(progress, 99999)
+    assert.match(text, /finished in 30s/)
+    assert.doesNotMatch(text, /Current:/)
+    assert.match(text, /\(\+2 more\)/)
+  })
+})
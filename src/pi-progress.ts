@@ -0,0 +1,153 @@
+/**
+ * Live progress tracking for subagent Pi runs.
+ *
+ * Consumes `pi --mode json` stdout as it streams and keeps a small summary
+ * (current tool, elapsed time, files touched) that can be rendered into a
+ * single Slack status message.
+ */
+
+interface PiStreamEvent {
+  type: string
+  toolName?: string
+  args?: Record<string, unknown>
+  assistantMessageEvent?: { type?: string }
+  [key: string]: unknown
+}
+
+export type PiProgressPhase = "starting" | "thinking" | "writing" | "tool"
+
+export interface PiProgress {
+  startedAt: number
+  phase: PiProgressPhase
+  currentTool?: string
+  currentToolDetail?: string
+  toolCalls: number
+  filesTouched: string[]
+  finishedAt?: number
+  failed?: boolean
+}
+
+const FILE_MUTATING_TOOLS = new Set(["edit", "write"])
+const MAX_DETAIL_LENGTH = 80
+const MAX_LISTED_FILES = 5
+
+export function createPiProgress(startedAt = Date.now()): PiProgress {
+  return {
+    startedAt,
+    phase: "starting",
+    toolCalls: 0,
+    filesTouched: [],
+  }
+}
+
+/**
+ * Split streamed stdout into JSON events, buffering partial lines between chunks.
+ */
+export function createPiEventStream(onEvent: (event: PiStreamEvent) => void): (chunk: string) => void {
+  let buffered = ""
+  return (chunk) => {
+    buffered += chunk
+    const lines = buffered.split("\n")
+    buffered = lines.pop() ?? ""
+    for (const line of lines) {
+      if (!line.trim()) continue
+      try {
+        onEvent(JSON.parse(line) as PiStreamEvent)
+      } catch {
+        // Non-JSON line — ignore
+      }
+    }
+  }
+}
+
+function describeToolArgs(toolName: string, args: Record<string, unknown> | undefined): string | undefined {
+  if (!args) return undefined
+  const raw = toolName === "bash" ? args.command : args.path
+  if (typeof raw !== "string" || !raw.trim()) return undefined
+  const firstLine = raw.trim().split("\n")[0] ?? ""
+  return firstLine.length > MAX_DETAIL_LENGTH ? `${firstLine.slice(0, MAX_DETAIL_LENGTH - 1)}…` : firstLine
+}
+
+/**
+ * Apply a Pi event to the progress summary.
+ * Returns true when something user-visible changed.
+ */
+export function applyPiEvent(progress: PiProgress, event: PiStreamEvent): boolean {
+  if (event.type === "tool_execution_start" && event.toolName) {
+    progress.phase = "tool"
+    progress.currentTool = event.toolName
+    progress.currentToolDetail = describeToolArgs(event.toolName, event.args)
+    progress.toolCalls += 1
+
+    const path = event.args?.path
+    if (FILE_MUTATING_TOOLS.has(event.toolName) && typeof path === "string" && !progress.filesTouched.includes(path)) {
+      progress.filesTouched.push(path)
+    }
+    return true
+  }
+
+  if (event.type === "message_update") {
+    const updateType = event.assistantMessageEvent?.type ?? ""
+    const phase: PiProgressPhase | undefined = updateType.startsWith("thinking")
+      ? "thinking"
+      : updateType.startsWith("text")
+        ? "writing"
+        : undefined
+    if (!phase || (phase === progress.phase && !progress.currentTool)) return false
+
+    progress.phase = phase
+    progress.currentTool = undefined
+    progress.currentToolDetail = undefined
+    return true
+  }
+
+  return false
+}
+
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  if (hours > 0) return `${hours}h ${minutes}m`
+  if (minutes > 0) return `${minutes}m ${seconds}s`
+  return `${seconds}s`
+}
+
+function describePhase(progress: PiProgress): string {
+  if (progress.phase === "tool" && progress.currentTool) {
+    return progress.currentToolDetail
+      ? `\`${progress.currentTool}\` ${progress.currentToolDetail}`
+      : `\`${progress.currentTool}\``
+  }
+  if (progress.phase === "thinking") return "thinking"
+  if (progress.phase === "writing") return "writing a response"
+  return "starting up"
+}
+
+/**
+ * Render the progress summary as Slack mrkdwn.
+ */
+export function formatPiProgress(progress: PiProgress, now = Date.now()): string {
+  const elapsed = formatElapsed((progress.finishedAt ?? now) - progress.startedAt)
+  const lines: string[] = []
+
+  if (progress.finishedAt) {
+    lines.push(progress.failed
+      ? `:x: *Coding subagent* stopped after ${elapsed}`
+      : `:white_check_mark: *Coding subagent* finished in ${elapsed}`)
+  } else {
+    lines.push(`:hourglass_flowing_sand: *Coding subagent* working for ${elapsed}`)
+    lines.push(`• Current: ${describePhase(progress)}`)
+  }
+
+  lines.push(`• Tool calls: ${progress.toolCalls}`)
+
+  if (progress.filesTouched.length > 0) {
+    const listed = progress.filesTouched.slice(-MAX_LISTED_FILES).map((path) => `\`${path}\``).join(", ")
+    const hidden = progress.filesTouched.length - MAX_LISTED_FILES
+    lines.push(`• Files touched: ${listed}${hidden > 0 ? ` (+${hidden} more)` : ""}`)
+  }
+
+  return lines.join("\n")
+}
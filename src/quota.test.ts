@@ -0,0 +1,39 @@
+import assert from "node:assert"
+import { describe, it } from "node:test"
+import { evaluateQuota, formatQuotaDenial, QUOTA_WINDOW_MS } from "./quota.js"
+
+describe("evaluateQuota", () => {
+  const limits = { concurrent: 2, turnsPerHour: 3 }
+
+  it("allows usage under the limits and treats 0 as unlimited", () => {
+    assert.deepStrictEqual(evaluateQuota("user", limits, { running: 1, recentStarts: [1, 2] }), { allowed: true })
+    assert.deepStrictEqual(
+      evaluateQuota("user", { concurrent: 0, turnsPerHour: 0 }, { running: 50, recentStarts: [1, 2, 3, 4] }),
+      { allowed: true }
+    )
+  })
+
+  it("denies on concurrency before rate", () => {
+    assert.deepStrictEqual(
+      evaluateQuota("channel", limits, { running: 2, recentStarts: [1, 2, 3] }),
+      { allowed: false, scope: "channel", reason: "concurrency" }
+    )
+  })
+
+  it("retries once enough old turns leave the window", () => {
+    const decision = evaluateQuota("user", limits, { running: 0, recentStarts: [100, 200, 300, 400] })
+    assert.deepStrictEqual(decision, { allowed: false, scope: "user", reason: "rate", retryAt: 200 + QUOTA_WINDOW_MS })
+  })
+})
+
+describe("formatQuotaDenial", () => {
+  it("states when the user can retry", () => {
+    const text = formatQuotaDenial({ allowed: false, scope: "user", reason: "rate", retryAt: 10 * 60000 }, 60000)
+    assert.strictEqual(text, "You have hit the hourly request limit. Please try again in about 9 minutes.")
+  })
+
+  it("explains concurrency denials per scope", () => {
+    const text = formatQuotaDenial({ allowed: false, scope: "channel", reason: "concurrency" }, 0)
+    assert.match(text, /^This channel has too many requests running/)
+  })
+})
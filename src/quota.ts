@@ -0,0 +1,133 @@
+/**
+ * Per-user and per-channel turn quotas.
+ *
+ * Each turn is recorded in the SQLite store while it runs. Before a new turn
+ * starts, the number of running turns and turns started in the last hour are
+ * checked against the configured limits for both the user and the channel.
+ */
+
+import { config } from "./config.js"
+import * as log from "./logger.js"
+import { getSessionStore, type TurnUsage, type TurnUsageScope } from "./session-store.js"
+
+export const QUOTA_WINDOW_MS = 60 * 60 * 1000
+
+// Usage rows are kept a little longer than the window for debugging.
+const USAGE_RETENTION_MS = 24 * 60 * 60 * 1000
+
+export interface QuotaLimits {
+  /** Max turns running at once (0 = unlimited). */
+  concurrent: number
+  /** Max turns started per QUOTA_WINDOW_MS (0 = unlimited). */
+  turnsPerHour: number
+}
+
+export type QuotaDecision =
+  | { allowed: true }
+  | {
+    allowed: false
+    scope: TurnUsageScope
+    reason: "concurrency" | "rate"
+    /** When the rate limit frees up; undefined for concurrency denials. */
+    retryAt?: number
+  }
+
+/**
+ * Check one scope's usage against its limits.
+ */
+export function evaluateQuota(scope: TurnUsageScope, limits: QuotaLimits, usage: TurnUsage): QuotaDecision {
+  if (limits.concurrent > 0 && usage.running >= limits.concurrent) {
+    return { allowed: false, scope, reason: "concurrency" }
+  }
+
+  const count = usage.recentStarts.length
+  if (limits.turnsPerHour > 0 && count >= limits.turnsPerHour) {
+    // The window frees a slot once enough of the oldest turns have aged out.
+    const oldestBlocking = usage.recentStarts[count - limits.turnsPerHour] ?? 0
+    return { allowed: false, scope, reason: "rate", retryAt: oldestBlocking + QUOTA_WINDOW_MS }
+  }
+
+  return { allowed: true }
+}
+
+function formatWait(ms: number): string {
+  const minutes = Math.max(1, Math.ceil(ms / 60000))
+  return minutes === 1 ? "about a minute" : `about ${minutes} minutes`
+}
+
+export function formatQuotaDenial(decision: Exclude<QuotaDecision, { allowed: true }>, now: number): string {
+  const who = decision.scope === "user" ? "You have" : "This channel has"
+  if (decision.reason === "concurrency") {
+    return `${who} too many requests running right now. Please try again once one of them finishes.`
+  }
+  const retryIn = formatWait((decision.retryAt ?? now) - now)
+  return `${who} hit the hourly request limit. Please try again in ${retryIn}.`
+}
+
+function limitsFor(scope: TurnUsageScope): QuotaLimits {
+  return scope === "user"
+    ? { concurrent: config.quotaUserConcurrent, turnsPerHour: config.quotaUserTurnsPerHour }
+    : { concurrent: config.quotaChannelConcurrent, turnsPerHour: config.quotaChannelTurnsPerHour }
+}
+
+export type TurnSlot =
+  | { allowed: true; release: () => void }
+  | { allowed: false; message: string }
+
+/**
+ * Check the user's and channel's quotas and, if both allow it, record a new
+ * running turn. Call `release` when the turn ends. Quotas fail open if the
+ * store is unavailable.
+ */
+export function acquireTurnSlot(userId: string, channelId: string, threadKey: string, now = Date.now()): TurnSlot {
+  try {
+    const store = getSessionStore()
+    const since = now - QUOTA_WINDOW_MS
+    const checks: Array<[TurnUsageScope, string]> = [["user", userId], ["channel", channelId]]
+    for (const [scope, id] of checks) {
+      const decision = evaluateQuota(scope, limitsFor(scope), store.getTurnUsage(scope, id, since))
+      if (!decision.allowed) {
+        log.info("Turn denied by quota", { userId, channelId, scope, reason: decision.reason })
+        return { allowed: false, message: formatQuotaDenial(decision, now) }
+      }
+    }
+
+    const turnId = store.startTurn(userId, channelId, threadKey, now)
+    return {
+      allowed: true,
+      release: () => {
+        try {
+          getSessionStore().finishTurn(turnId, Date.now())
+        } catch (err) {
+          log.warn("Failed to record turn completion", {
+            turnId,
+            error: err instanceof Error ? err.message : String(err),
+          })
+        }
+      },
+    }
+  } catch (err) {
+    log.warn("Failed to check turn quota; allowing turn", {
+      userId,
+      channelId,
+      error: err instanceof Error ? err.message : String(err),
+    })
+    return { allowed: true, release: () => {} }
+  }
+}
+
+/**
+ * Close turns left running by a previous process and prune old usage rows.
+ */
+export function settleTurnUsage(now = Date.now()): void {
+  try {
+    const closed = getSessionStore().settleTurnUsage(now, now - USAGE_RETENTION_MS)
+    if (closed > 0) {
+      log.info("Closed turns left running by previous process", { count: closed })
+    }
+  } catch (err) {
+    log.warn("Failed to settle turn usage", {
+      error: err instanceof Error ? err.message : String(err),
+    })
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, it, afterEach } from "node:test"
+import assert from "node:assert"
+import { config } from "./config.js"
+import { buildExplainPrompt, getReactionCommand } from "./reaction-commands.js"
+
+describe("reaction commands", () => {
+  const defaults = {
+    retry: config.reactionRetryEmoji,
+    abort: config.reactionAbortEmoji,
+    explain: config.reactionExplainEmoji,
+  }
+
+  afterEach(() => {
+    config.reactionRetryEmoji = defaults.retry
+    config.reactionAbortEmoji = defaults.abort
+    config.reactionExplainEmoji = defaults.explain
+  })
+
+  it("maps configured emoji to commands, ignoring skin tones", () => {
+    config.reactionRetryEmoji = ["repeat"]
+    config.reactionAbortEmoji = ["x"]
+    config.reactionExplainEmoji = ["raised_hand"]
+
+    assert.strictEqual(getReactionCommand("repeat"), "retry")
+    assert.strictEqual(getReactionCommand("x"), "abort")
+    assert.strictEqual(getReactionCommand("raised_hand::skin-tone-3"), "explain")
+    assert.strictEqual(getReactionCommand("white_check_mark"), undefined)
+  })
+
+  it("leaves :x: alone by default, since people use it in conversation", () => {
+    assert.strictEqual(getReactionCommand("x"), undefined)
+    assert.strictEqual(getReactionCommand("octagonal_sign"), "abort")
+  })
+
+  it("treats an empty list as disabled", () => {
+    config.reactionAbortEmoji = []
+    assert.strictEqual(getReactionCommand("x"), undefined)
+  })
+
+  it("quotes the reacted message in the explain prompt", () => {
+    const prompt = buildExplainPrompt("Build failed\nexit code 1")
+    assert.ok(prompt.endsWith("> Build failed\n> exit code 1"))
+    assert.ok(buildExplainPrompt(" ").startsWith("Explain the message"))
+    assert.ok(buildExplainPrompt("a".repeat(5000)).endsWith("a…"))
+  })
+})
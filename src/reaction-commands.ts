@@ -0,0 +1,44 @@
+/**
+ * Emoji reactions as thread commands.
+ *
+ * Reacting to one of Jane's messages, or to the root of a thread Jane has
+ * joined, with a configured emoji retries the thread's last turn, aborts its
+ * running job, or asks Jane to explain the message that was reacted to.
+ */
+
+import { config } from "./config.js"
+
+export type ReactionCommand = "retry" | "abort" | "explain"
+
+// Longest quote of the reacted message included in an "explain" prompt.
+const MAX_EXPLAIN_QUOTE_LENGTH = 4000
+
+/**
+ * The command a reaction maps to, if any. Skin-tone variants
+ * (`thumbsup::skin-tone-2`) match their base emoji.
+ */
+export function getReactionCommand(reaction: string): ReactionCommand | undefined {
+  const name = reaction.split("::")[0] ?? reaction
+  if (config.reactionRetryEmoji.includes(name)) return "retry"
+  if (config.reactionAbortEmoji.includes(name)) return "abort"
+  if (config.reactionExplainEmoji.includes(name)) return "explain"
+  return undefined
+}
+
+/**
+ * Prompt for the "explain" reaction, quoting the message that was reacted to.
+ */
+export function buildExplainPrompt(text: string): string {
+  const trimmed = text.trim()
+  const quoted = trimmed.length > MAX_EXPLAIN_QUOTE_LENGTH
+    ? `${trimmed.slice(0, MAX_EXPLAIN_QUOTE_LENGTH)}…`
+    : trimmed
+  if (!quoted) {
+    return "Explain the message I reacted to in this thread."
+  }
+  return [
+    "Explain this message from the thread in plain terms: what it means, and anything I should do about it.",
+    "",
+    quoted.split("\n").map((line) => `> ${line}`).join("\n"),
+  ].join("\n")
+}
@@ -0,0 +1,35 @@
+import assert from "node:assert"
+import { Readable } from "node:stream"
+import { describe, it } from "node:test"
+import {
+  assertWithinTransferLimit,
+  createVerifyingStream,
+  parseSandboxFileStat,
+  readStreamToBuffer,
+  sha256Hex,
+} from "./sandbox-files.js"
+
+const hello = Buffer.from("hello")
+const helloStat = { size: 5, sha256: sha256Hex(hello) }
+
+function verify(chunks: Buffer[], maxBytes = 100, expected = helloStat): Promise<Buffer> {
+  return readStreamToBuffer(Readable.from(chunks).pipe(createVerifyingStream("/tmp/f", expected, maxBytes)))
+}
+
+describe("sandbox file transfers", () => {
+  it("parses stat and sha256sum output", () => {
+    assert.deepStrictEqual(parseSandboxFileStat(`5\n${helloStat.sha256}  /tmp/f\n`), helloStat)
+    assert.throws(() => parseSandboxFileStat("stat: cannot stat"), /Unexpected file stat output/)
+  })
+
+  it("passes content that matches the expected checksum", async () => {
+    assert.deepStrictEqual(await verify([Buffer.from("he"), Buffer.from("llo")]), hello)
+  })
+
+  it("fails on checksum mismatches and oversized content", async () => {
+    await assert.rejects(verify([Buffer.from("jello")]), /Checksum mismatch/)
+    await assert.rejects(verify([hello, hello], 6, { size: 10, sha256: helloStat.sha256 }), /exceeded the 6 byte transfer limit/)
+    assert.throws(() => assertWithinTransferLimit("/tmp/f", 11, 10), /over the 10 byte transfer limit/)
+    assert.doesNotThrow(() => assertWithinTransferLimit("/tmp/f", 10, 10))
+  })
+})
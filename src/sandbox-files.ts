@@ -0,0 +1,106 @@
+/**
+ * File transfer checks shared by SandboxClient implementations.
+ *
+ * Every transfer is size-limited and checked against a SHA-256 computed
+ * inside the sandbox: downloads compare the streamed bytes with the digest
+ * taken before streaming, uploads compare the written file with the digest of
+ * the data that was sent.
+ */
+
+import { createHash } from "node:crypto"
+import { Transform, type Readable, type TransformCallback } from "node:stream"
+import type { SandboxClient } from "./sandbox.js"
+
+export interface SandboxFileStat {
+  size: number
+  sha256: string
+}
+
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024
+const parsedMaxBytes = parseInt(process.env.SANDBOX_FILE_MAX_BYTES || "", 10)
+export const SANDBOX_FILE_MAX_BYTES = Number.isFinite(parsedMaxBytes) && parsedMaxBytes > 0
+  ? parsedMaxBytes
+  : DEFAULT_MAX_BYTES
+
+const FILE_STAT_TIMEOUT_MS = 120000
+const FILE_STAT_SCRIPT = 'stat -c %s -- "$0" && sha256sum -- "$0"'
+
+export function sha256Hex(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex")
+}
+
+export function assertWithinTransferLimit(path: string, size: number, maxBytes: number): void {
+  if (size > maxBytes) {
+    throw new Error(`${path} is ${size} bytes, over the ${maxBytes} byte transfer limit`)
+  }
+}
+
+export function parseSandboxFileStat(stdout: string): SandboxFileStat {
+  const [sizeLine = "", sumLine = ""] = stdout.trim().split("\n")
+  const size = parseInt(sizeLine, 10)
+  const sha256 = sumLine.trim().split(/\s+/)[0] ?? ""
+  if (!Number.isFinite(size) || !/^[0-9a-f]{64}$/.test(sha256)) {
+    throw new Error(`Unexpected file stat output: ${stdout.trim()}`)
+  }
+  return { size, sha256 }
+}
+
+export async function statSandboxFile(client: SandboxClient, sandboxName: string, path: string): Promise<SandboxFileStat> {
+  const result = await client.exec(sandboxName, ["bash", "-c", FILE_STAT_SCRIPT, path], {
+    timeoutMs: FILE_STAT_TIMEOUT_MS,
+  })
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to read ${path}: ${result.stderr.trim() || result.stdout.trim()}`)
+  }
+  return parseSandboxFileStat(result.stdout)
+}
+
+/**
+ * Pass bytes through while counting and hashing them; errors once more than
+ * `maxBytes` arrive, or at the end if the content doesn't match `expected`.
+ */
+export function createVerifyingStream(path: string, expected: SandboxFileStat, maxBytes: number): Transform {
+  const hash = createHash("sha256")
+  let received = 0
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+      received += chunk.length
+      if (received > maxBytes) {
+        callback(new Error(`${path} exceeded the ${maxBytes} byte transfer limit`))
+        return
+      }
+      hash.update(chunk)
+      callback(null, chunk)
+    },
+    flush(callback: TransformCallback) {
+      const actual = hash.digest("hex")
+      if (received !== expected.size || actual !== expected.sha256) {
+        callback(new Error(`Checksum mismatch downloading ${path}: expected ${expected.size} bytes sha256 ${expected.sha256}, got ${received} bytes sha256 ${actual}`))
+        return
+      }
+      callback()
+    },
+  })
+}
+
+export async function verifySandboxUpload(
+  client: SandboxClient,
+  sandboxName: string,
+  path: string,
+  data: Buffer
+): Promise<void> {
+  const written = await statSandboxFile(client, sandboxName, path)
+  const expected = sha256Hex(data)
+  if (written.size !== data.length || written.sha256 !== expected) {
+    throw new Error(`Checksum mismatch uploading ${path}: sent ${data.length} bytes sha256 ${expected}, sandbox has ${written.size} bytes sha256 ${written.sha256}`)
+  }
+}
+
+export async function readStreamToBuffer(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string))
+  }
+  return Buffer.concat(chunks)
+}
@@ -0,0 +1,96 @@
+import assert from "node:assert"
+import { Readable } from "node:stream"
+import { describe, it } from "node:test"
+import { followSandboxJob, parseSandboxJobPoll, sandboxJobFiles } from "./sandbox-jobs.js"
+import type { SandboxClient, SandboxExecResult } from "./sandbox.js"
+
+function createScriptedClient(polls: Array<SandboxExecResult | Error>): SandboxClient & { offsets: string[] } {
+  const offsets: string[] = []
+  return {
+    piBin: "/bin/pi",
+    defaultPath: "/bin",
+    npmBin: "/bin/npm",
+    homeDir: "/root",
+    offsets,
+    async get() { return null },
+    async create(name) { return { id: name, name, status: "running" } },
+    async delete() {},
+    async stop() {},
+    async start() {},
+    async ensureRunning() { return "running" },
+    async exec(_name, command) {
+      offsets.push(command[command.length - 1] ?? "")
+      const next = polls.shift()
+      if (!next) throw new Error("unexpected poll")
+      if (next instanceof Error) throw next
+      return next
+    },
+    async downloadFile() { return Buffer.alloc(0) },
+    async downloadFileStream() { return Readable.from([]) },
+    async uploadFile() {},
+    async list() { return [] },
+    async checkpoint() { return "checkpoint" },
+    async createFromCheckpoint(name) { return { id: name, name, status: "running" } },
+    async setNetworkPolicy() {},
+  }
+}
+
+const files = sandboxJobFiles("/root/jobs", "job_1")
+
+describe("sandboxJobFiles", () => {
+  it("derives every job file from the job id", () => {
+    assert.strictEqual(files.log, "/root/jobs/job_1.log")
+    assert.strictEqual(files.exit, "/root/jobs/job_1.exit")
+    assert.strictEqual(files.pid, "/root/jobs/job_1.pid")
+  })
+})
+
+describe("parseSandboxJobPoll", () => {
+  it("holds back partial lines while the job is running", () => {
+    const poll = parseSandboxJobPoll({ stdout: "{\"a\":1}\n{\"b\":", stderr: "running\n", exitCode: 0 }, 10)
+    assert.deepStrictEqual(poll.state, { status: "running" })
+    assert.strictEqual(poll.output, "{\"a\":1}\n")
+    assert.strictEqual(poll.nextOffset, 18)
+  })
+
+  it("returns everything plus the stderr tail once exited", () => {
+    const poll = parseSandboxJobPoll({ stdout: "done", stderr: "exit:2\nboom\n", exitCode: 0 }, 0)
+    assert.deepStrictEqual(poll.state, { status: "exited", exitCode: 2 })
+    assert.strictEqual(poll.output, "done")
+    assert.strictEqual(poll.stderr, "boom")
+  })
+
+  it("counts multi-byte characters in the byte offset", () => {
+    const poll = parseSandboxJobPoll({ stdout: "é\n", stderr: "running", exitCode: 0 }, 0)
+    assert.strictEqual(poll.nextOffset, 3)
+  })
+})
+
+describe("followSandboxJob", () => {
+  it("streams output across polls and survives a failed poll", async () => {
+    const client = createScriptedClient([
+      { stdout: "one\ntw", stderr: "running\n", exitCode: 0 },
+      new Error("websocket closed"),
+      { stdout: "two\n", stderr: "exit:0\n", exitCode: 0 },
+    ])
+    const chunks: string[] = []
+
+    const result = await followSandboxJob(client, "jane-test", files, {
+      timeoutMs: 1000,
+      pollIntervalMs: 1,
+      onStdout: (chunk) => chunks.push(chunk),
+    })
+
+    assert.deepStrictEqual(result, { stdout: "one\ntwo\n", stderr: "", exitCode: 0 })
+    assert.deepStrictEqual(chunks, ["one\n", "two\n"])
+    assert.deepStrictEqual(client.offsets, ["0", "4", "4"])
+  })
+
+  it("fails when the job disappears without an exit status", async () => {
+    const client = createScriptedClient([{ stdout: "", stderr: "missing\n", exitCode: 0 }])
+    await assert.rejects(
+      followSandboxJob(client, "jane-test", files, { timeoutMs: 1000, pollIntervalMs: 1 }),
+      /without recording an exit status/
+    )
+  })
+})
@@ -0,0 +1,232 @@
+/**
+ * Detached sandbox jobs.
+ *
+ * A job runs in its own process group inside the sandbox with stdout written
+ * to a per-job log file, so it keeps going when the host's exec connection
+ * drops or the host restarts. The host follows a job by polling its files by
+ * jobId: new log lines are streamed to the caller and the exit code is picked
+ * up from `<jobId>.exit` once the process finishes.
+ */
+
+import * as log from "./logger.js"
+import type { SandboxClient, SandboxExecResult } from "./sandbox.js"
+
+export interface SandboxJobFiles {
+  stdin: string
+  log: string
+  stderr: string
+  pid: string
+  exit: string
+}
+
+export type SandboxJobState =
+  | { status: "running" }
+  | { status: "exited"; exitCode: number }
+  | { status: "missing" }
+
+export interface SandboxJobPoll {
+  state: SandboxJobState
+  /** Complete log lines since the requested offset (everything, once exited). */
+  output: string
+  /** Byte offset to request on the next poll. */
+  nextOffset: number
+  /** Tail of the job's stderr, only populated once exited. */
+  stderr: string
+}
+
+export interface FollowSandboxJobOptions {
+  timeoutMs: number
+  pollIntervalMs?: number
+  /** Called with new stdout as complete lines arrive. */
+  onStdout?: (chunk: string) => void
+  /** Stop following when aborted; the returned promise rejects with the signal's reason. */
+  signal?: AbortSignal
+  /** Byte offset in the log to start from, e.g. when output was already consumed. */
+  offset?: number
+}
+
+const JOB_POLL_INTERVAL_MS = 2000
+const JOB_POLL_TIMEOUT_MS = 30000
+const JOB_STDERR_TAIL_BYTES = 2000
+
+// Records the process group id in $0, runs the command, then writes the exit
+// code to $1 (atomically) before removing the pid file, so a poll always sees
+// either a live pid file or an exit file for a job that ended normally.
+const JOB_WRAPPER_SCRIPT = [
+  'pid_file="$0"; exit_file="$1"; shift',
+  'echo $$ > "$pid_file"',
+  '"$@"',
+  "status=$?",
+  'echo "$status" > "$exit_file.tmp" && mv "$exit_file.tmp" "$exit_file"',
+  'rm -f "$pid_file"',
+  'exit "$status"',
+].join("\n")
+
+// Starts the wrapper in a new session with stdio on files and returns at once.
+const JOB_LAUNCH_SCRIPT = 'stdin_file="$0"; log_file="$1"; err_file="$2"; shift 2; setsid "$@" < "$stdin_file" > "$log_file" 2> "$err_file" &'
+
+// State is decided before reading the log, so an "exited" poll always includes
+// the job's final output. First stderr line is the state; the rest is job stderr.
+const JOB_POLL_SCRIPT = [
+  'log_file="$0"; err_file="$1"; pid_file="$2"; exit_file="$3"; offset="$4"',
+  'if [ -f "$exit_file" ]; then state="exit:$(cat "$exit_file")"',
+  'elif [ -f "$pid_file" ] && kill -0 -- "-$(cat "$pid_file")" 2>/dev/null; then state=running',
+  "else state=missing; fi",
+  'tail -c +"$((offset + 1))" "$log_file" 2>/dev/null',
+  'echo "$state" >&2',
+  `case "$state" in exit:*) tail -c ${JOB_STDERR_TAIL_BYTES} "$err_file" >&2 2>/dev/null ;; esac`,
+  "exit 0",
+].join("\n")
+
+export function sandboxJobFiles(jobsDir: string, jobId: string): SandboxJobFiles {
+  const base = `${jobsDir}/${jobId}`
+  return {
+    stdin: `${base}.in`,
+    log: `${base}.log`,
+    stderr: `${base}.err`,
+    pid: `${base}.pid`,
+    exit: `${base}.exit`,
+  }
+}
+
+/**
+ * Launch `command` detached inside the sandbox. Returns once the job has
+ * started; follow it with followSandboxJob.
+ */
+export async function launchSandboxJob(
+  client: SandboxClient,
+  sandboxName: string,
+  files: SandboxJobFiles,
+  command: string[],
+  options: { env?: Record<string, string>; dir?: string; stdin?: string } = {}
+): Promise<void> {
+  const writeStdin = await client.exec(sandboxName, ["bash", "-c", 'cat > "$0"', files.stdin], {
+    stdin: options.stdin ?? "",
+    timeoutMs: JOB_POLL_TIMEOUT_MS,
+  })
+  if (writeStdin.exitCode !== 0) {
+    throw new Error(`Failed to write job input: ${writeStdin.stderr || writeStdin.stdout}`)
+  }
+
+  const launch = await client.exec(sandboxName, [
+    "bash", "-c", JOB_LAUNCH_SCRIPT, files.stdin, files.log, files.stderr,
+    "bash", "-c", JOB_WRAPPER_SCRIPT, files.pid, files.exit,
+    ...command,
+  ], {
+    env: options.env,
+    dir: options.dir,
+    timeoutMs: JOB_POLL_TIMEOUT_MS,
+  })
+  if (launch.exitCode !== 0) {
+    throw new Error(`Failed to launch job: ${launch.stderr || launch.stdout}`)
+  }
+}
+
+export function parseSandboxJobPoll(result: SandboxExecResult, offset: number): SandboxJobPoll {
+  const [stateLine = "", ...stderrLines] = result.stderr.split("\n")
+  let state: SandboxJobState
+  if (stateLine.startsWith("exit:")) {
+    const exitCode = parseInt(stateLine.slice("exit:".length), 10)
+    state = { status: "exited", exitCode: Number.isFinite(exitCode) ? exitCode : 1 }
+  } else if (stateLine === "running") {
+    state = { status: "running" }
+  } else {
+    state = { status: "missing" }
+  }
+
+  // Only hand back whole lines while running so multi-byte characters and
+  // JSON events are never split across polls.
+  const end = state.status === "exited" ? result.stdout.length : result.stdout.lastIndexOf("\n") + 1
+  const output = result.stdout.slice(0, end)
+  return {
+    state,
+    output,
+    nextOffset: offset + Buffer.byteLength(output),
+    stderr: state.status === "exited" ? stderrLines.join("\n").trim() : "",
+  }
+}
+
+export async function pollSandboxJob(
+  client: SandboxClient,
+  sandboxName: string,
+  files: SandboxJobFiles,
+  offset = 0
+): Promise<SandboxJobPoll> {
+  const result = await client.exec(sandboxName, [
+    "bash", "-c", JOB_POLL_SCRIPT, files.log, files.stderr, files.pid, files.exit, String(offset),
+  ], {
+    timeoutMs: JOB_POLL_TIMEOUT_MS,
+    maxRetries: 1,
+  })
+  return parseSandboxJobPoll(result, offset)
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/**
+ * Poll a detached job until it exits and return its collected output.
+ * Poll failures (e.g. a dropped connection) are retried until the timeout;
+ * the job itself is left running on timeout or abort.
+ */
+export async function followSandboxJob(
+  client: SandboxClient,
+  sandboxName: string,
+  files: SandboxJobFiles,
+  options: FollowSandboxJobOptions
+): Promise<SandboxExecResult> {
+  const deadline = Date.now() + options.timeoutMs
+  const pollIntervalMs = options.pollIntervalMs ?? JOB_POLL_INTERVAL_MS
+  let offset = options.offset ?? 0
+  let stdout = ""
+
+  while (true) {
+    options.signal?.throwIfAborted()
+
+    let poll: SandboxJobPoll | undefined
+    try {
+      poll = await pollSandboxJob(client, sandboxName, files, offset)
+    } catch (err) {
+      options.signal?.throwIfAborted()
+      log.warn("Failed to poll sandbox job; will retry", {
+        sandbox: sandboxName,
+        log: files.log,
+        error: err instanceof Error ? err.message : String(err),
+      })
+    }
+
+    if (poll) {
+      offset = poll.nextOffset
+      if (poll.output) {
+        stdout += poll.output
+        options.onStdout?.(poll.output)
+      }
+      if (poll.state.status === "exited") {
+        return { stdout, stderr: poll.stderr, exitCode: poll.state.exitCode }
+      }
+      if (poll.state.status === "missing") {
+        throw new Error("Job stopped without recording an exit status")
+      }
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Job did not finish within ${options.timeoutMs}ms`)
+    }
+    await delay(Math.min(pollIntervalMs, Math.max(0, deadline - Date.now())), options.signal)
+  }
+}
@@ -0,0 +1,109 @@
+import assert from "node:assert"
+import { Readable } from "node:stream"
+import { describe, it } from "node:test"
+import { formatSandboxPoolStatus, SandboxPool } from "./sandbox-pool.js"
+import type { SandboxClient, SandboxInfo } from "./sandbox.js"
+
+function createFakeClient(existing: string[] = []): SandboxClient & { deleted: string[] } {
+  const deleted: string[] = []
+  return {
+    piBin: "/bin/pi",
+    defaultPath: "/bin",
+    npmBin: "/bin/npm",
+    homeDir: "/root",
+    deleted,
+    async get() { return null },
+    async create(name) { return { id: name, name, status: "running" } },
+    async delete(name) { deleted.push(name) },
+    async stop() {},
+    async start() {},
+    async ensureRunning() { return "running" },
+    async exec() { return { stdout: "", stderr: "", exitCode: 0 } },
+    async downloadFile() { return Buffer.alloc(0) },
+    async downloadFileStream() { return Readable.from([]) },
+    async uploadFile() {},
+    async list(prefix) {
+      return existing
+        .filter((name) => !prefix || name.startsWith(prefix))
+        .map((name): SandboxInfo => ({ id: name, name, status: "running" }))
+    },
+    async checkpoint() { return "checkpoint" },
+    async createFromCheckpoint(name) { return { id: name, name, status: "running" } },
+    async setNetworkPolicy() {},
+  }
+}
+
+async function settle(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await new Promise((resolve) => setImmediate(resolve))
+  }
+}
+
+describe("SandboxPool", () => {
+  it("fills to size and refills after a claim", async () => {
+    const prepared: string[] = []
+    const pool = new SandboxPool(createFakeClient(), {
+      size: 2,
+      prepare: async (name) => { prepared.push(name) },
+      isClaimed: () => false,
+    })
+
+    await pool.start()
+    await settle()
+    assert.strictEqual(pool.status().ready, 2)
+
+    const claimed = pool.claim()
+    assert.ok(claimed?.startsWith("jane-pool-"))
+    assert.notStrictEqual(pool.claim(), claimed)
+    await settle()
+
+    assert.deepStrictEqual(pool.status(), { target: 2, ready: 2, warming: 0, claimed: 2, lastError: undefined })
+    assert.strictEqual(prepared.length, 4)
+  })
+
+  it("adopts unclaimed pool sandboxes and deletes the surplus", async () => {
+    const client = createFakeClient(["jane-pool-a", "jane-pool-b", "jane-pool-c", "jane-other"])
+    const pool = new SandboxPool(client, {
+      size: 1,
+      prepare: async () => {},
+      isClaimed: (name) => name === "jane-pool-a",
+    })
+
+    await pool.start()
+
+    assert.strictEqual(pool.claim(), "jane-pool-b")
+    assert.deepStrictEqual(client.deleted, ["jane-pool-c"])
+    pool.stop()
+  })
+
+  it("leaves sandboxes owned by threads alone", async () => {
+    const client = createFakeClient(["jane-pool-a", "jane-pool-b"])
+    const pool = new SandboxPool(client, { size: 1, prepare: async () => {}, isClaimed: () => true })
+
+    await pool.start()
+    await settle()
+    pool.stop()
+
+    assert.deepStrictEqual(client.deleted, [])
+    const claimed = pool.claim()
+    assert.ok(claimed?.startsWith("jane-pool-"))
+    assert.ok(claimed !== "jane-pool-a" && claimed !== "jane-pool-b")
+  })
+
+  it("backs off and reports the error when warming fails", async () => {
+    const client = createFakeClient()
+    const pool = new SandboxPool(client, {
+      size: 1,
+      prepare: async () => { throw new Error("bootstrap failed") },
+      isClaimed: () => false,
+    })
+
+    await pool.start()
+    await settle()
+    pool.stop()
+
+    assert.strictEqual(pool.claim(), undefined)
+    assert.strictEqual(client.deleted.length, 1)
+    assert.strictEqual(formatSandboxPoolStatus(pool.status()), "0/1 ready, last error: bootstrap failed")
+  })
+})
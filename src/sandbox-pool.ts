@@ -0,0 +1,167 @@
+/**
+ * Warm sandbox pool.
+ *
+ * Keeps a number of bootstrapped, unassigned sandboxes ready so new threads
+ * don't pay the full create + bootstrap cost. Claimed sandboxes are renamed
+ * to the thread's sandbox name where the backend can rename (Docker, local);
+ * on Sprites they keep their pool name. The subagent session row records
+ * which sandbox a thread owns, so on startup only pool sandboxes no session
+ * owns are adopted.
+ */
+
+import { randomUUID } from "crypto"
+import * as log from "./logger.js"
+import type { SandboxClient } from "./sandbox.js"
+
+export const POOL_SANDBOX_PREFIX = "jane-pool-"
+
+// Wait before retrying after a failed warm-up so a broken backend isn't hammered.
+const REFILL_BACKOFF_MS = 30000
+
+export interface SandboxPoolStatus {
+  target: number
+  ready: number
+  warming: number
+  claimed: number
+  lastError?: string
+}
+
+export interface SandboxPoolOptions {
+  size: number
+  /** Create (if needed) and bootstrap a sandbox so it is ready to run jobs. */
+  prepare: (name: string) => Promise<void>
+  /** Whether a thread has claimed the sandbox; owned sandboxes are never adopted or deleted. */
+  isClaimed: (name: string) => boolean
+  prefix?: string
+}
+
+export class SandboxPool {
+  private readonly client: SandboxClient
+  private readonly size: number
+  private readonly prepare: (name: string) => Promise<void>
+  private readonly isClaimed: (name: string) => boolean
+  private readonly prefix: string
+  private readonly ready: string[] = []
+  private warming = 0
+  private claimed = 0
+  private lastError: string | undefined
+  private backoffTimer: ReturnType<typeof setTimeout> | undefined
+  private stopped = false
+
+  constructor(client: SandboxClient, options: SandboxPoolOptions) {
+    this.client = client
+    this.size = Math.max(0, options.size)
+    this.prepare = options.prepare
+    this.isClaimed = options.isClaimed
+    this.prefix = options.prefix ?? POOL_SANDBOX_PREFIX
+  }
+
+  /**
+   * Adopt unclaimed pool sandboxes left by a previous process, then fill up to size.
+   */
+  async start(): Promise<void> {
+    let existing: string[] = []
+    try {
+      existing = (await this.client.list(this.prefix))
+        .map((sandbox) => sandbox.name)
+        .filter((name) => !this.isClaimed(name))
+    } catch (err) {
+      log.warn("Failed to list existing pool sandboxes", {
+        error: err instanceof Error ? err.message : String(err),
+      })
+    }
+
+    for (const name of existing.slice(this.size)) {
+      log.info("Deleting surplus pool sandbox", { sandbox: name })
+      await this.client.delete(name).catch(() => {})
+    }
+
+    // Re-run bootstrap for adopted sandboxes; it is cheap when they're already set up.
+    await Promise.all(existing.slice(0, this.size).map((name) => this.warm(name)))
+    this.fill()
+  }
+
+  /**
+   * Take a ready sandbox out of the pool, or undefined if none is ready.
+   * Claiming is synchronous so concurrent callers can never get the same sandbox.
+   */
+  claim(): string | undefined {
+    const name = this.ready.shift()
+    if (name) {
+      this.claimed += 1
+      log.info("Claimed sandbox from warm pool", { sandbox: name, remaining: this.ready.length })
+    }
+    this.fill()
+    return name
+  }
+
+  status(): SandboxPoolStatus {
+    return {
+      target: this.size,
+      ready: this.ready.length,
+      warming: this.warming,
+      claimed: this.claimed,
+      lastError: this.lastError,
+    }
+  }
+
+  /**
+   * Stop refilling. Ready sandboxes stay claimable.
+   */
+  stop(): void {
+    this.stopped = true
+    if (this.backoffTimer) clearTimeout(this.backoffTimer)
+    this.backoffTimer = undefined
+  }
+
+  private fill(): void {
+    if (this.stopped || this.backoffTimer) return
+    while (this.ready.length + this.warming < this.size) {
+      void this.warm(`${this.prefix}${randomUUID().slice(0, 8)}`)
+    }
+  }
+
+  private async warm(name: string): Promise<void> {
+    this.warming += 1
+    const startedAt = Date.now()
+    try {
+      await this.prepare(name)
+      this.ready.push(name)
+      this.lastError = undefined
+      log.info("Warm pool sandbox ready", { sandbox: name, durationMs: Date.now() - startedAt, ready: this.ready.length })
+    } catch (err) {
+      this.lastError = err instanceof Error ? err.message : String(err)
+      log.warn("Failed to warm pool sandbox", { sandbox: name, error: this.lastError })
+      await this.client.delete(name).catch(() => {})
+      if (!this.backoffTimer) {
+        this.backoffTimer = setTimeout(() => {
+          this.backoffTimer = undefined
+          this.fill()
+        }, REFILL_BACKOFF_MS)
+        this.backoffTimer.unref?.()
+      }
+    } finally {
+      this.warming -= 1
+    }
+  }
+}
+
+export function formatSandboxPoolStatus(status: SandboxPoolStatus): string {
+  const parts = [`${status.ready}/${status.target} ready`]
+  if (status.warming > 0) parts.push(`${status.warming} warming`)
+  if (status.lastError) parts.push(`last error: ${status.lastError}`)
+  return parts.join(", ")
+}
+
+let pool: SandboxPool | undefined
+
+export function initSandboxPool(instance: SandboxPool): void {
+  pool = instance
+}
+
+/**
+ * Returns the warm pool, or undefined when prewarming is disabled.
+ */
+export function getSandboxPool(): SandboxPool | undefined {
+  return pool
+}
@@ -0,0 +1,30 @@
+import assert from "node:assert"
+import { describe, it } from "node:test"
+import { minimumIdleMs, planReapAction } from "./sandbox-reaper.js"
+
+const HOUR = 60 * 60 * 1000
+const policy = { stopAfterMs: HOUR, deleteAfterMs: 24 * HOUR }
+
+describe("minimumIdleMs", () => {
+  it("ignores disabled thresholds", () => {
+    assert.strictEqual(minimumIdleMs(policy), HOUR)
+    assert.strictEqual(minimumIdleMs({ stopAfterMs: 0, deleteAfterMs: 2 * HOUR }), 2 * HOUR)
+    assert.strictEqual(minimumIdleMs({ stopAfterMs: 0, deleteAfterMs: 0 }), undefined)
+  })
+})
+
+describe("planReapAction", () => {
+  const now = 100 * HOUR
+
+  it("stops active sandboxes and deletes long-idle ones", () => {
+    assert.strictEqual(planReapAction({ status: "idle", sandboxState: "active", updatedAt: now - 30 * 60 * 1000 }, policy, now), undefined)
+    assert.strictEqual(planReapAction({ status: "idle", sandboxState: "active", updatedAt: now - 2 * HOUR }, policy, now), "stop")
+    assert.strictEqual(planReapAction({ status: "idle", sandboxState: "stopped", updatedAt: now - 2 * HOUR }, policy, now), undefined)
+    assert.strictEqual(planReapAction({ status: "error", sandboxState: "stopped", updatedAt: now - 30 * HOUR }, policy, now), "delete")
+  })
+
+  it("never touches running or already deleted sandboxes", () => {
+    assert.strictEqual(planReapAction({ status: "running", sandboxState: "active", updatedAt: 0 }, policy, now), undefined)
+    assert.strictEqual(planReapAction({ status: "idle", sandboxState: "deleted", updatedAt: 0 }, policy, now), undefined)
+  })
+})
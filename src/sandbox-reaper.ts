@@ -0,0 +1,72 @@
+/**
+ * Idle sandbox reaper policy.
+ *
+ * Sandboxes whose subagent session has been idle for a while are stopped, and
+ * deleted after a longer period. The next message in the thread restarts or
+ * recreates the sandbox transparently.
+ */
+
+import * as log from "./logger.js"
+import type { PersistedSandboxState, PersistedSessionStatus } from "./session-store.js"
+
+export interface SandboxIdlePolicy {
+  /** Stop sandboxes idle for at least this long (0 = never). */
+  stopAfterMs: number
+  /** Delete sandboxes idle for at least this long (0 = never). */
+  deleteAfterMs: number
+}
+
+export type ReapAction = "stop" | "delete"
+
+interface ReapCandidate {
+  status: PersistedSessionStatus
+  sandboxState: PersistedSandboxState
+  updatedAt: number
+}
+
+export const REAPER_INTERVAL_MS = 5 * 60 * 1000
+
+/**
+ * The shortest idle time that can trigger any action, or undefined if reaping is disabled.
+ */
+export function minimumIdleMs(policy: SandboxIdlePolicy): number | undefined {
+  const thresholds = [policy.stopAfterMs, policy.deleteAfterMs].filter((ms) => ms > 0)
+  return thresholds.length > 0 ? Math.min(...thresholds) : undefined
+}
+
+export function planReapAction(
+  session: ReapCandidate,
+  policy: SandboxIdlePolicy,
+  now: number
+): ReapAction | undefined {
+  if (session.status === "running" || session.sandboxState === "deleted") return undefined
+
+  const idleMs = now - session.updatedAt
+  if (policy.deleteAfterMs > 0 && idleMs >= policy.deleteAfterMs) return "delete"
+  if (session.sandboxState === "active" && policy.stopAfterMs > 0 && idleMs >= policy.stopAfterMs) return "stop"
+  return undefined
+}
+
+/**
+ * Run `reap` on an interval. Returns a function that stops the reaper.
+ */
+export function startSandboxReaper(reap: () => Promise<void>, intervalMs = REAPER_INTERVAL_MS): () => void {
+  let running = false
+  const tick = async () => {
+    if (running) return
+    running = true
+    try {
+      await reap()
+    } catch (err) {
+      log.warn("Sandbox reaper pass failed", {
+        error: err instanceof Error ? err.message : String(err),
+      })
+    } finally {
+      running = false
+    }
+  }
+
+  const timer = setInterval(() => void tick(), intervalMs)
+  timer.unref?.()
+  return () => clearInterval(timer)
+}
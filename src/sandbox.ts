@@ -2,10 +2,11 @@
  * SandboxClient interface — abstraction over container backends.
  *
  * Provides container lifecycle, command execution, and file access.
- * Implementations live in sprites.ts and docker-sandbox.ts.
+ * Implementations live in sprites.ts, docker-sandbox.ts and local-sandbox.ts.
  */
 
 import { createHash } from "crypto"
+import type { Readable } from "node:stream"
 
 export interface SandboxInfo {
   id: string
@@ -19,6 +20,11 @@ export interface SandboxExecResult {
   exitCode: number
 }
 
+/**
+ * What ensureRunning had to do: nothing, start a stopped sandbox, or create a missing one.
+ */
+export type SandboxEnsureResult = "running" | "started" | "created"
+
 export interface SandboxNetworkPolicyRule {
   action: "allow" | "deny"
   domain: string
@@ -30,6 +36,15 @@ export interface SandboxExecOptions {
   stdin?: string
   timeoutMs?: number
   maxRetries?: number
+  /** Called with each stdout chunk as it arrives; the full stdout is still returned. */
+  onStdout?: (chunk: string) => void
+  /** Abandon the exec when aborted; the returned promise rejects with the signal's reason. */
+  signal?: AbortSignal
+}
+
+export interface SandboxFileTransferOptions {
+  /** Reject transfers larger than this many bytes (default SANDBOX_FILE_MAX_BYTES). */
+  maxBytes?: number
 }
 
 export interface SandboxClient {
@@ -45,21 +60,46 @@ export interface SandboxClient {
   get(name: string): Promise<SandboxInfo | null>
   create(name: string): Promise<SandboxInfo>
   delete(name: string): Promise<void>
+  /** Stop a sandbox without deleting its filesystem. */
+  stop(name: string): Promise<void>
+  /** Start a previously stopped sandbox. */
+  start(name: string): Promise<void>
+  /** Create the sandbox if it is missing, or start it if it has stopped. */
+  ensureRunning(name: string): Promise<SandboxEnsureResult>
+  /**
+   * Give an existing sandbox a new name, keeping its filesystem. Commands
+   * running in it may be stopped. Missing on backends that can't rename.
+   */
+  rename?(name: string, newName: string): Promise<void>
   exec(name: string, command: string[], options?: SandboxExecOptions): Promise<SandboxExecResult>
-  downloadFile(name: string, path: string): Promise<Buffer>
+  /** Read a whole file; size-limited and checksum-verified like downloadFileStream. */
+  downloadFile(name: string, path: string, options?: SandboxFileTransferOptions): Promise<Buffer>
+  /**
+   * Stream a file out of the sandbox. Rejects up front if the file is over the
+   * size limit; the stream errors if its content doesn't match the checksum
+   * taken before the transfer started.
+   */
+  downloadFileStream(name: string, path: string, options?: SandboxFileTransferOptions): Promise<Readable>
+  /** Write a file inside the sandbox, creating parent directories, and verify its checksum. */
+  uploadFile(name: string, path: string, data: Buffer, options?: SandboxFileTransferOptions): Promise<void>
   list(prefix?: string): Promise<SandboxInfo[]>
+  /** Capture a sandbox's filesystem and return an id for one createFromCheckpoint call. */
+  checkpoint(name: string): Promise<string>
+  /** Create sandbox `name` with the filesystem `source` had at the checkpoint. */
+  createFromCheckpoint(name: string, source: string, checkpointId: string): Promise<SandboxInfo>
   setNetworkPolicy(name: string, rules: SandboxNetworkPolicyRule[]): Promise<void>
 }
 
 /**
- * Generate a deterministic sandbox name from a Slack thread.
+ * Generate a deterministic sandbox name from a Slack thread. Sessions after
+ * a reset get a generation suffix so they never reuse the old sandbox.
  */
-export function getSandboxName(channelId: string, threadTs: string): string {
+export function getSandboxName(channelId: string, threadTs: string, generation = 0): string {
   const hash = createHash("sha256")
     .update(`${channelId}:${threadTs}`)
     .digest("hex")
     .slice(0, 12)
-  return `jane-${hash}`
+  return generation > 0 ? `jane-${hash}-g${generation}` : `jane-${hash}`
 }
 
 // Global singleton — set once at startup via initSandboxClient().
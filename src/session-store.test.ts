@@ -63,6 +63,241 @@ describe("SessionStore", () => {
     assert.strictEqual(byId.updatedAt, 20)
   })
 
+  it("lists idle sessions that still have a sandbox, and running ones", () => {
+    store = new SessionStore(dbPath)
+
+    const base: PersistedSubagentSession = {
+      id: "sa_idle",
+      key: "C1:1",
+      channelId: "C1",
+      threadTs: "1",
+      sandboxName: "jane-idle",
+      piSessionFile: "/root/sessions/sa_idle.jsonl",
+      status: "idle",
+      turns: 1,
+      createdAt: 10,
+      updatedAt: 100,
+    }
+    store.upsert(base)
+    store.upsert({ ...base, id: "sa_running", key: "C1:2", threadTs: "2", status: "running", updatedAt: 50 })
+    store.upsert({ ...base, id: "sa_deleted", key: "C1:3", threadTs: "3", sandboxState: "deleted", updatedAt: 50 })
+    store.upsert({ ...base, id: "sa_recent", key: "C1:4", threadTs: "4", updatedAt: 500 })
+    store.upsert({ ...base, id: "sa_stopped", key: "C1:5", threadTs: "5", sandboxState: "stopped", updatedAt: 20 })
+
+    const idle = store.listIdleSessions(200)
+    assert.deepStrictEqual(idle.map((session) => session.id), ["sa_stopped", "sa_idle"])
+    assert.strictEqual(idle[1]?.sandboxState, "active")
+    assert.deepStrictEqual(store.listRunningSessions().map((session) => session.id), ["sa_running"])
+  })
+
+  it("lists sessions newest first and finds them by sandbox", () => {
+    store = new SessionStore(dbPath)
+
+    const base: PersistedSubagentSession = {
+      id: "sa_a",
+      key: "C1:1",
+      channelId: "C1",
+      threadTs: "1",
+      sandboxName: "jane-a",
+      piSessionFile: "/root/sessions/sa_a.jsonl",
+      status: "idle",
+      turns: 0,
+      createdAt: 10,
+      updatedAt: 10,
+    }
+    store.upsert(base)
+    store.upsert({ ...base, id: "sa_b", key: "C1:2", threadTs: "2", sandboxName: "jane-pool-b", updatedAt: 30 })
+    store.upsert({ ...base, id: "sa_c", key: "C1:3", threadTs: "3", sandboxName: "jane-c", updatedAt: 20 })
+
+    assert.deepStrictEqual(store.listSessions(2).map((session) => session.id), ["sa_b", "sa_c"])
+    assert.deepStrictEqual(store.listSessions(2, 2).map((session) => session.id), ["sa_a"])
+    assert.strictEqual(store.getBySandboxName("jane-pool-b")?.id, "sa_b")
+    assert.strictEqual(store.getBySandboxName("jane-missing"), undefined)
+  })
+
+  it("archives reset sessions and hands out the next generation", () => {
+    store = new SessionStore(dbPath)
+
+    const session: PersistedSubagentSession = {
+      id: "sa_gen0",
+      key: "C1:1",
+      channelId: "C1",
+      threadTs: "1",
+      sandboxName: "jane-gen0",
+      piSessionFile: "/root/sessions/sa_gen0.jsonl",
+      status: "error",
+      lastError: "broken node_modules",
+      turns: 4,
+      createdAt: 10,
+      updatedAt: 20,
+    }
+    store.upsert(session)
+    assert.strictEqual(store.getNextGeneration("C1:1"), 0)
+
+    store.archiveSession("sa_gen0", 30)
+    assert.strictEqual(store.getByThread("C1", "1"), undefined)
+    assert.strictEqual(store.getNextGeneration("C1:1"), 1)
+
+    // The thread key is free again for the next generation.
+    store.upsert({ ...session, id: "sa_gen1", sandboxName: "jane-gen1", status: "idle", generation: 1 })
+    assert.strictEqual(store.getByThread("C1", "1")?.generation, 1)
+    store.archiveSession("sa_gen1", 40)
+
+    const archived = store.listArchivedSessions("C1:1")
+    assert.deepStrictEqual(archived.map((entry) => entry.id), ["sa_gen0", "sa_gen1"])
+    assert.strictEqual(archived[0]?.lastError, "broken node_modules")
+    assert.strictEqual(store.getNextGeneration("C1:1"), 2)
+  })
+
+  it("records the parent of forked sessions through archiving", () => {
+    store = new SessionStore(dbPath)
+
+    const base: PersistedSubagentSession = {
+      id: "sa_parent",
+      key: "C1:1",
+      channelId: "C1",
+      threadTs: "1",
+      sandboxName: "jane-parent",
+      piSessionFile: "/root/sessions/sa_parent.jsonl",
+      status: "idle",
+      turns: 2,
+      createdAt: 10,
+      updatedAt: 10,
+    }
+    store.upsert(base)
+    store.upsert({
+      ...base,
+      id: "sa_fork",
+      key: "C1:2",
+      threadTs: "2",
+      sandboxName: "jane-fork",
+      piSessionFile: "/root/sessions/sa_fork.jsonl",
+      parentSessionId: "sa_parent",
+    })
+
+    assert.strictEqual(store.getByThread("C1", "1")?.parentSessionId, undefined)
+    assert.strictEqual(store.getByThread("C1", "2")?.parentSessionId, "sa_parent")
+
+    store.archiveSession("sa_fork", 20)
+    assert.strictEqual(store.listArchivedSessions("C1:2")[0]?.parentSessionId, "sa_parent")
+  })
+
+  it("persists and reloads orchestrator sessions", () => {
+    store = new SessionStore(dbPath)
+
+    store.upsertOrchestratorSession({
+      key: "C123:1234.567",
+      channelId: "C123",
+      threadTs: "1234.567",
+      sessionFile: "/tmp/orch_abc.jsonl",
+      createdAt: 10,
+      updatedAt: 10,
+    })
+
+    const created = store.getOrchestratorSession("C123", "1234.567")
+    assert.ok(created)
+    assert.strictEqual(created.sessionFile, "/tmp/orch_abc.jsonl")
+    assert.strictEqual(created.lastSeenEventTs, undefined)
+
+    store.upsertOrchestratorSession({
+      key: "C123:1234.567",
+      channelId: "C123",
+      threadTs: "1234.567",
+      sessionFile: "/tmp/orch_abc.jsonl",
+      lastSeenEventTs: "1234.999",
+      createdAt: 99,
+      updatedAt: 20,
+    })
+
+    const updated = store.getOrchestratorSession("C123", "1234.567")
+    assert.ok(updated)
+    assert.strictEqual(updated.lastSeenEventTs, "1234.999")
+    assert.strictEqual(updated.createdAt, 10)
+    assert.strictEqual(updated.updatedAt, 20)
+    assert.strictEqual(store.getOrchestratorSession("C123", "other"), undefined)
+  })
+
+  it("tracks running and recent turns per user and channel", () => {
+    store = new SessionStore(dbPath)
+
+    const first = store.startTurn("U1", "C1", "C1:1", 100)
+    store.startTurn("U1", "C2", "C2:1", 200)
+    store.startTurn("U2", "C1", "C1:2", 300)
+    store.finishTurn(first, 150)
+
+    assert.deepStrictEqual(store.getTurnUsage("user", "U1", 0), { running: 1, recentStarts: [100, 200] })
+    assert.deepStrictEqual(store.getTurnUsage("channel", "C1", 150), { running: 1, recentStarts: [300] })
+
+    assert.strictEqual(store.settleTurnUsage(400, 150), 2)
+    assert.deepStrictEqual(store.getTurnUsage("user", "U1", 0), { running: 0, recentStarts: [200] })
+  })
+
+  it("totals usage records per thread and per user", () => {
+    store = new SessionStore(dbPath)
+
+    const base = {
+      threadKey: "C1:1",
+      channelId: "C1",
+      threadTs: "1",
+      userId: "U1",
+      source: "orchestrator" as const,
+      inputTokens: 100,
+      outputTokens: 10,
+      cacheReadTokens: 5,
+      cacheWriteTokens: 1,
+      costUsd: 0.25,
+      createdAt: 100,
+    }
+    store.recordUsage(base)
+    store.recordUsage({ ...base, source: "subagent", jobId: "job_1", userId: undefined, createdAt: 200 })
+    store.recordUsage({ ...base, threadKey: "C1:2", threadTs: "2", createdAt: 300 })
+
+    assert.deepStrictEqual(store.getUsageTotals({ threadKey: "C1:1" }), {
+      records: 2,
+      input: 200,
+      output: 20,
+      cacheRead: 10,
+      cacheWrite: 2,
+      cost: 0.5,
+    })
+    assert.strictEqual(store.getUsageTotals({ userId: "U1" }).records, 2)
+    assert.strictEqual(store.getUsageTotals({ userId: "U1" }, 250).records, 1)
+    assert.strictEqual(store.getUsageTotals({ userId: "U2" }).records, 0)
+  })
+
+  it("records job history and keeps the first finish", () => {
+    store = new SessionStore(dbPath)
+
+    const job = {
+      jobId: "job_1",
+      subagentSessionId: "sa_1",
+      threadKey: "C1:1",
+      channelId: "C1",
+      threadTs: "1",
+      instruction: "fix the tests",
+      status: "running" as const,
+      artifacts: [],
+      startedAt: 100,
+    }
+    store.insertJob(job)
+    store.insertJob({ ...job, jobId: "job_2", snapshotId: "snap_2", startedAt: 200 })
+    assert.strictEqual(store.finishJob("job_1", { status: "failed", exitCode: 1, error: "boom", finishedAt: 150 }), true)
+    assert.strictEqual(store.finishJob("job_1", { status: "completed", exitCode: 0, finishedAt: 160 }), false)
+    store.finishJob("job_2", { status: "completed", exitCode: 0, model: "m", artifacts: ["out.txt"], finishedAt: 260 })
+
+    const jobs = store.listJobs("C1:1", 10)
+    assert.deepStrictEqual(jobs.map((entry) => entry.jobId), ["job_2", "job_1"])
+    assert.strictEqual(jobs[1]?.status, "failed")
+    assert.strictEqual(jobs[1]?.finishedAt, 150)
+    assert.deepStrictEqual(jobs[0]?.artifacts, ["out.txt"])
+    assert.strictEqual(jobs[0]?.snapshotId, "snap_2")
+    assert.strictEqual(jobs[1]?.snapshotId, undefined)
+    assert.strictEqual(store.listJobs("C1:1", 1).length, 1)
+
+    store.setJobSnapshot("job_1", "snap_1")
+    assert.strictEqual(store.listJobs("C1:1", 10)[1]?.snapshotId, "snap_1")
+  })
+
   it("applies migrations only once", () => {
     const first = new SessionStore(dbPath)
     first.close()
@@ -76,6 +311,6 @@ describe("SessionStore", () => {
       .get() as { count: number }
     db.close()
 
-    assert.strictEqual(row.count, 1)
+    assert.strictEqual(row.count, 9)
   })
 })
@@ -4,6 +4,7 @@ import { dirname } from "node:path"
 import * as log from "./logger.js"
 
 export type PersistedSessionStatus = "idle" | "running" | "error"
+export type PersistedSandboxState = "active" | "stopped" | "deleted"
 
 export interface PersistedSubagentSession {
   id: string
@@ -16,11 +17,92 @@ export interface PersistedSubagentSession {
   runningJobId?: string
   lastJobId?: string
   lastError?: string
+  sandboxState?: PersistedSandboxState
+  /** Bumped by each reset of the thread; 0 for its first session. */
+  generation?: number
+  /** Session this one was forked from with `/fork`. */
+  parentSessionId?: string
   turns: number
   createdAt: number
   updatedAt: number
 }
 
+export interface PersistedOrchestratorSession {
+  key: string
+  channelId: string
+  threadTs: string
+  sessionFile: string
+  lastSeenEventTs?: string
+  createdAt: number
+  updatedAt: number
+}
+
+export type TurnUsageScope = "user" | "channel"
+
+export interface TurnUsage {
+  /** Turns started and not yet finished. */
+  running: number
+  /** Start times of turns in the window, oldest first. */
+  recentStarts: number[]
+}
+
+export type SubagentJobStatus = "running" | "completed" | "failed" | "aborted" | "interrupted"
+
+export interface PersistedSubagentJob {
+  jobId: string
+  subagentSessionId: string
+  threadKey: string
+  channelId: string
+  threadTs: string
+  instruction: string
+  status: SubagentJobStatus
+  exitCode?: number
+  model?: string
+  artifacts: string[]
+  error?: string
+  /** Workspace snapshot taken before the job ran. */
+  snapshotId?: string
+  startedAt: number
+  finishedAt?: number
+}
+
+export interface SubagentJobFinish {
+  status: Exclude<SubagentJobStatus, "running">
+  exitCode?: number
+  model?: string
+  artifacts?: string[]
+  error?: string
+  finishedAt: number
+}
+
+export type UsageSource = "orchestrator" | "subagent"
+
+export interface UsageRecord {
+  threadKey: string
+  channelId: string
+  threadTs: string
+  userId?: string
+  source: UsageSource
+  /** Subagent job id, or the Slack event ts of an orchestrator turn. */
+  jobId?: string
+  model?: string
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  costUsd: number
+  createdAt: number
+}
+
+export interface UsageTotals {
+  records: number
+  input: number
+  output: number
+  cacheRead: number
+  cacheWrite: number
+  cost: number
+}
+
 interface Migration {
   version: number
   description: string
@@ -54,6 +136,161 @@ const MIGRATIONS: Migration[] = [
       `)
     },
   },
+  {
+    version: 2,
+    description: "Create orchestrator sessions table",
+    apply(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS orchestrator_sessions (
+          thread_key TEXT PRIMARY KEY,
+          channel_id TEXT NOT NULL,
+          thread_ts TEXT NOT NULL,
+          session_file TEXT NOT NULL,
+          last_seen_event_ts TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `)
+    },
+  },
+  {
+    version: 3,
+    description: "Track sandbox lifecycle state on subagent sessions",
+    apply(db) {
+      db.exec(`
+        ALTER TABLE subagent_sessions
+          ADD COLUMN sandbox_state TEXT NOT NULL DEFAULT 'active'
+          CHECK (sandbox_state IN ('active', 'stopped', 'deleted'));
+      `)
+    },
+  },
+  {
+    version: 4,
+    description: "Create turn usage table for quotas",
+    apply(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS turn_usage (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id TEXT NOT NULL,
+          channel_id TEXT NOT NULL,
+          thread_key TEXT NOT NULL,
+          started_at INTEGER NOT NULL,
+          finished_at INTEGER
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_turn_usage_user
+          ON turn_usage(user_id, started_at);
+        CREATE INDEX IF NOT EXISTS idx_turn_usage_channel
+          ON turn_usage(channel_id, started_at);
+      `)
+    },
+  },
+  {
+    version: 5,
+    description: "Create token usage records table",
+    apply(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS usage_records (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          thread_key TEXT NOT NULL,
+          channel_id TEXT NOT NULL,
+          thread_ts TEXT NOT NULL,
+          user_id TEXT,
+          source TEXT NOT NULL CHECK (source IN ('orchestrator', 'subagent')),
+          job_id TEXT,
+          model TEXT,
+          input_tokens INTEGER NOT NULL,
+          output_tokens INTEGER NOT NULL,
+          cache_read_tokens INTEGER NOT NULL,
+          cache_write_tokens INTEGER NOT NULL,
+          cost_usd REAL NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_usage_records_thread
+          ON usage_records(thread_key);
+        CREATE INDEX IF NOT EXISTS idx_usage_records_user
+          ON usage_records(user_id);
+      `)
+    },
+  },
+  {
+    version: 6,
+    description: "Create subagent jobs history table",
+    apply(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS subagent_jobs (
+          job_id TEXT PRIMARY KEY,
+          subagent_session_id TEXT NOT NULL,
+          thread_key TEXT NOT NULL,
+          channel_id TEXT NOT NULL,
+          thread_ts TEXT NOT NULL,
+          instruction TEXT NOT NULL,
+          status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'failed', 'aborted', 'interrupted')),
+          exit_code INTEGER,
+          model TEXT,
+          artifacts TEXT NOT NULL DEFAULT '[]',
+          error TEXT,
+          started_at INTEGER NOT NULL,
+          finished_at INTEGER
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_subagent_jobs_thread
+          ON subagent_jobs(thread_key, started_at);
+      `)
+    },
+  },
+  {
+    version: 7,
+    description: "Track session generations and archive reset sessions",
+    apply(db) {
+      db.exec(`
+        ALTER TABLE subagent_sessions
+          ADD COLUMN generation INTEGER NOT NULL DEFAULT 0;
+
+        CREATE TABLE IF NOT EXISTS subagent_sessions_archive (
+          id TEXT PRIMARY KEY,
+          thread_key TEXT NOT NULL,
+          channel_id TEXT NOT NULL,
+          thread_ts TEXT NOT NULL,
+          sandbox_name TEXT NOT NULL,
+          pi_session_file TEXT NOT NULL,
+          status TEXT NOT NULL,
+          running_job_id TEXT,
+          last_job_id TEXT,
+          last_error TEXT,
+          sandbox_state TEXT NOT NULL,
+          generation INTEGER NOT NULL,
+          turns INTEGER NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          archived_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_subagent_sessions_archive_thread
+          ON subagent_sessions_archive(thread_key, generation);
+      `)
+    },
+  },
+  {
+    version: 8,
+    description: "Record workspace snapshots on subagent jobs",
+    apply(db) {
+      db.exec(`
+        ALTER TABLE subagent_jobs ADD COLUMN snapshot_id TEXT;
+      `)
+    },
+  },
+  {
+    version: 9,
+    description: "Record the parent of forked sessions",
+    apply(db) {
+      db.exec(`
+        ALTER TABLE subagent_sessions ADD COLUMN parent_session_id TEXT;
+        ALTER TABLE subagent_sessions_archive ADD COLUMN parent_session_id TEXT;
+      `)
+    },
+  },
 ]
 
 type SessionRow = {
@@ -67,11 +304,41 @@ type SessionRow = {
   running_job_id: string | null
   last_job_id: string | null
   last_error: string | null
+  sandbox_state: PersistedSandboxState
+  generation: number
+  parent_session_id: string | null
   turns: number
   created_at: number
   updated_at: number
 }
 
+type SubagentJobRow = {
+  job_id: string
+  subagent_session_id: string
+  thread_key: string
+  channel_id: string
+  thread_ts: string
+  instruction: string
+  status: SubagentJobStatus
+  exit_code: number | null
+  model: string | null
+  artifacts: string
+  error: string | null
+  snapshot_id: string | null
+  started_at: number
+  finished_at: number | null
+}
+
+type OrchestratorSessionRow = {
+  thread_key: string
+  channel_id: string
+  thread_ts: string
+  session_file: string
+  last_seen_event_ts: string | null
+  created_at: number
+  updated_at: number
+}
+
 export class SessionStore {
   readonly dbPath: string
   private readonly db: DatabaseSync
@@ -107,6 +374,48 @@ export class SessionStore {
     return row ? mapRow(row) : undefined
   }
 
+  getBySandboxName(sandboxName: string): PersistedSubagentSession | undefined {
+    const row = this.db
+      .prepare("SELECT * FROM subagent_sessions WHERE sandbox_name = ? ORDER BY updated_at DESC LIMIT 1")
+      .get(sandboxName) as SessionRow | undefined
+    return row ? mapRow(row) : undefined
+  }
+
+  /**
+   * Most recently updated sessions first.
+   */
+  listSessions(limit: number, offset = 0): PersistedSubagentSession[] {
+    const rows = this.db
+      .prepare("SELECT * FROM subagent_sessions ORDER BY updated_at DESC LIMIT ? OFFSET ?")
+      .all(limit, offset) as SessionRow[]
+    return rows.map(mapRow)
+  }
+
+  /**
+   * Sessions recorded as running a job, e.g. when the previous process died mid-turn.
+   */
+  listRunningSessions(): PersistedSubagentSession[] {
+    const rows = this.db
+      .prepare("SELECT * FROM subagent_sessions WHERE status = 'running' ORDER BY updated_at ASC")
+      .all() as SessionRow[]
+    return rows.map(mapRow)
+  }
+
+  /**
+   * Sessions that haven't been touched since `updatedBefore`, are not running,
+   * and still have a sandbox (stopped or active). Oldest first.
+   */
+  listIdleSessions(updatedBefore: number): PersistedSubagentSession[] {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM subagent_sessions
+        WHERE status != 'running' AND sandbox_state != 'deleted' AND updated_at < ?
+        ORDER BY updated_at ASC
+      `)
+      .all(updatedBefore) as SessionRow[]
+    return rows.map(mapRow)
+  }
+
   upsert(session: PersistedSubagentSession): void {
     this.db
       .prepare(`
@@ -121,10 +430,13 @@ export class SessionStore {
           running_job_id,
           last_job_id,
           last_error,
+          sandbox_state,
+          generation,
+          parent_session_id,
           turns,
           created_at,
           updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         ON CONFLICT(id) DO UPDATE SET
           thread_key = excluded.thread_key,
           channel_id = excluded.channel_id,
@@ -135,6 +447,9 @@ export class SessionStore {
           running_job_id = excluded.running_job_id,
           last_job_id = excluded.last_job_id,
           last_error = excluded.last_error,
+          sandbox_state = excluded.sandbox_state,
+          generation = excluded.generation,
+          parent_session_id = excluded.parent_session_id,
           turns = excluded.turns,
           updated_at = excluded.updated_at
       `)
@@ -149,12 +464,321 @@ export class SessionStore {
         session.runningJobId ?? null,
         session.lastJobId ?? null,
         session.lastError ?? null,
+        session.sandboxState ?? "active",
+        session.generation ?? 0,
+        session.parentSessionId ?? null,
         session.turns,
         session.createdAt,
         session.updatedAt,
       )
   }
 
+  /**
+   * Move a session to the archive so its thread can start a new one.
+   */
+  archiveSession(id: string, archivedAt: number): void {
+    this.db.exec("BEGIN")
+    try {
+      this.db
+        .prepare(`
+          INSERT INTO subagent_sessions_archive (
+            id,
+            thread_key,
+            channel_id,
+            thread_ts,
+            sandbox_name,
+            pi_session_file,
+            status,
+            running_job_id,
+            last_job_id,
+            last_error,
+            sandbox_state,
+            generation,
+            parent_session_id,
+            turns,
+            created_at,
+            updated_at,
+            archived_at
+          )
+          SELECT
+            id,
+            thread_key,
+            channel_id,
+            thread_ts,
+            sandbox_name,
+            pi_session_file,
+            status,
+            running_job_id,
+            last_job_id,
+            last_error,
+            sandbox_state,
+            generation,
+            parent_session_id,
+            turns,
+            created_at,
+            updated_at,
+            ?
+          FROM subagent_sessions WHERE id = ?
+        `)
+        .run(archivedAt, id)
+      this.db.prepare("DELETE FROM subagent_sessions WHERE id = ?").run(id)
+      this.db.exec("COMMIT")
+    } catch (err) {
+      this.db.exec("ROLLBACK")
+      throw err
+    }
+  }
+
+  /**
+   * Archived sessions for a thread, oldest generation first.
+   */
+  listArchivedSessions(threadKey: string): PersistedSubagentSession[] {
+    const rows = this.db
+      .prepare("SELECT * FROM subagent_sessions_archive WHERE thread_key = ? ORDER BY generation ASC")
+      .all(threadKey) as SessionRow[]
+    return rows.map(mapRow)
+  }
+
+  /**
+   * Generation for the thread's next session: one past the newest archived
+   * session, or 0 if the thread was never reset.
+   */
+  getNextGeneration(threadKey: string): number {
+    const row = this.db
+      .prepare("SELECT MAX(generation) AS generation FROM subagent_sessions_archive WHERE thread_key = ?")
+      .get(threadKey) as { generation: number | null }
+    return row.generation === null ? 0 : row.generation + 1
+  }
+
+  getOrchestratorSession(channelId: string, threadTs: string): PersistedOrchestratorSession | undefined {
+    const row = this.db
+      .prepare("SELECT * FROM orchestrator_sessions WHERE channel_id = ? AND thread_ts = ?")
+      .get(channelId, threadTs) as OrchestratorSessionRow | undefined
+    return row ? mapOrchestratorRow(row) : undefined
+  }
+
+  upsertOrchestratorSession(session: PersistedOrchestratorSession): void {
+    this.db
+      .prepare(`
+        INSERT INTO orchestrator_sessions (
+          thread_key,
+          channel_id,
+          thread_ts,
+          session_file,
+          last_seen_event_ts,
+          created_at,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(thread_key) DO UPDATE SET
+          session_file = excluded.session_file,
+          last_seen_event_ts = excluded.last_seen_event_ts,
+          updated_at = excluded.updated_at
+      `)
+      .run(
+        session.key,
+        session.channelId,
+        session.threadTs,
+        session.sessionFile,
+        session.lastSeenEventTs ?? null,
+        session.createdAt,
+        session.updatedAt,
+      )
+  }
+
+  /**
+   * Record the start of a turn. Returns an id to pass to finishTurn.
+   */
+  startTurn(userId: string, channelId: string, threadKey: string, startedAt: number): number {
+    const result = this.db
+      .prepare("INSERT INTO turn_usage (user_id, channel_id, thread_key, started_at) VALUES (?, ?, ?, ?)")
+      .run(userId, channelId, threadKey, startedAt)
+    return Number(result.lastInsertRowid)
+  }
+
+  finishTurn(id: number, finishedAt: number): void {
+    this.db
+      .prepare("UPDATE turn_usage SET finished_at = ? WHERE id = ? AND finished_at IS NULL")
+      .run(finishedAt, id)
+  }
+
+  /**
+   * Mark turns left open by a previous process as finished and drop rows
+   * older than `before`. Returns how many open turns were closed.
+   */
+  settleTurnUsage(now: number, before: number): number {
+    const closed = this.db
+      .prepare("UPDATE turn_usage SET finished_at = ? WHERE finished_at IS NULL")
+      .run(now)
+    this.db.prepare("DELETE FROM turn_usage WHERE started_at < ?").run(before)
+    return Number(closed.changes)
+  }
+
+  getTurnUsage(scope: TurnUsageScope, id: string, since: number): TurnUsage {
+    const column = scope === "user" ? "user_id" : "channel_id"
+    const running = this.db
+      .prepare(`SELECT COUNT(*) AS count FROM turn_usage WHERE ${column} = ? AND finished_at IS NULL`)
+      .get(id) as { count: number }
+    const recent = this.db
+      .prepare(`SELECT started_at FROM turn_usage WHERE ${column} = ? AND started_at >= ? ORDER BY started_at ASC`)
+      .all(id, since) as Array<{ started_at: number }>
+    return {
+      running: running.count,
+      recentStarts: recent.map((row) => row.started_at),
+    }
+  }
+
+  insertJob(job: PersistedSubagentJob): void {
+    this.db
+      .prepare(`
+        INSERT INTO subagent_jobs (
+          job_id,
+          subagent_session_id,
+          thread_key,
+          channel_id,
+          thread_ts,
+          instruction,
+          status,
+          exit_code,
+          model,
+          artifacts,
+          error,
+          snapshot_id,
+          started_at,
+          finished_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        job.jobId,
+        job.subagentSessionId,
+        job.threadKey,
+        job.channelId,
+        job.threadTs,
+        job.instruction,
+        job.status,
+        job.exitCode ?? null,
+        job.model ?? null,
+        JSON.stringify(job.artifacts),
+        job.error ?? null,
+        job.snapshotId ?? null,
+        job.startedAt,
+        job.finishedAt ?? null,
+      )
+  }
+
+  setJobSnapshot(jobId: string, snapshotId: string): void {
+    this.db.prepare("UPDATE subagent_jobs SET snapshot_id = ? WHERE job_id = ?").run(snapshotId, jobId)
+  }
+
+  /**
+   * Record how a job ended. Only the first call for a job takes effect, so
+   * the most specific outcome wins when several code paths report it.
+   * Returns whether this call was the one that recorded the outcome.
+   */
+  finishJob(jobId: string, finish: SubagentJobFinish): boolean {
+    const updated = this.db
+      .prepare(`
+        UPDATE subagent_jobs SET
+          status = ?,
+          exit_code = ?,
+          model = ?,
+          artifacts = ?,
+          error = ?,
+          finished_at = ?
+        WHERE job_id = ? AND status = 'running'
+      `)
+      .run(
+        finish.status,
+        finish.exitCode ?? null,
+        finish.model ?? null,
+        JSON.stringify(finish.artifacts ?? []),
+        finish.error ?? null,
+        finish.finishedAt,
+        jobId,
+      )
+    return Number(updated.changes) > 0
+  }
+
+  /**
+   * Most recent jobs for a thread, newest first.
+   */
+  listJobs(threadKey: string, limit: number): PersistedSubagentJob[] {
+    const rows = this.db
+      .prepare("SELECT * FROM subagent_jobs WHERE thread_key = ? ORDER BY started_at DESC LIMIT ?")
+      .all(threadKey, limit) as SubagentJobRow[]
+    return rows.map(mapJobRow)
+  }
+
+  recordUsage(record: UsageRecord): void {
+    this.db
+      .prepare(`
+        INSERT INTO usage_records (
+          thread_key,
+          channel_id,
+          thread_ts,
+          user_id,
+          source,
+          job_id,
+          model,
+          input_tokens,
+          output_tokens,
+          cache_read_tokens,
+          cache_write_tokens,
+          cost_usd,
+          created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        record.threadKey,
+        record.channelId,
+        record.threadTs,
+        record.userId ?? null,
+        record.source,
+        record.jobId ?? null,
+        record.model ?? null,
+        record.inputTokens,
+        record.outputTokens,
+        record.cacheReadTokens,
+        record.cacheWriteTokens,
+        record.costUsd,
+        record.createdAt,
+      )
+  }
+
+  /**
+   * Sum usage for a thread or a user, optionally since a point in time.
+   */
+  getUsageTotals(filter: { threadKey: string } | { userId: string }, since = 0): UsageTotals {
+    const [column, value] = "threadKey" in filter ? ["thread_key", filter.threadKey] : ["user_id", filter.userId]
+    const row = this.db
+      .prepare(`
+        SELECT
+          COUNT(*) AS records,
+          COALESCE(SUM(input_tokens), 0) AS input,
+          COALESCE(SUM(output_tokens), 0) AS output,
+          COALESCE(SUM(cache_read_tokens), 0) AS cache_read,
+          COALESCE(SUM(cache_write_tokens), 0) AS cache_write,
+          COALESCE(SUM(cost_usd), 0) AS cost
+        FROM usage_records
+        WHERE ${column} = ? AND created_at >= ?
+      `)
+      .get(value, since) as {
+        records: number
+        input: number
+        output: number
+        cache_read: number
+        cache_write: number
+        cost: number
+      }
+    return {
+      records: row.records,
+      input: row.input,
+      output: row.output,
+      cacheRead: row.cache_read,
+      cacheWrite: row.cache_write,
+      cost: row.cost,
+    }
+  }
+
   private applyMigrations(): void {
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS schema_migrations (
@@ -209,6 +833,14 @@ export function initSessionStore(dbPath: string): SessionStore {
   return store
 }
 
+/**
+ * Close the database. Later getSessionStore() calls throw until re-initialised.
+ */
+export function closeSessionStore(): void {
+  store?.close()
+  store = undefined
+}
+
 export function getSessionStore(): SessionStore {
   if (!store) {
     throw new Error("Session store not initialised")
@@ -228,8 +860,42 @@ function mapRow(row: SessionRow): PersistedSubagentSession {
     runningJobId: row.running_job_id ?? undefined,
     lastJobId: row.last_job_id ?? undefined,
     lastError: row.last_error ?? undefined,
+    sandboxState: row.sandbox_state,
+    generation: row.generation,
+    parentSessionId: row.parent_session_id ?? undefined,
     turns: row.turns,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   }
 }
+
+function mapOrchestratorRow(row: OrchestratorSessionRow): PersistedOrchestratorSession {
+  return {
+    key: row.thread_key,
+    channelId: row.channel_id,
+    threadTs: row.thread_ts,
+    sessionFile: row.session_file,
+    lastSeenEventTs: row.last_seen_event_ts ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function mapJobRow(row: SubagentJobRow): PersistedSubagentJob {
+  return {
+    jobId: row.job_id,
+    subagentSessionId: row.subagent_session_id,
+    threadKey: row.thread_key,
+    channelId: row.channel_id,
+    threadTs: row.thread_ts,
+    instruction: row.instruction,
+    status: row.status,
+    exitCode: row.exit_code ?? undefined,
+    model: row.model ?? undefined,
+    artifacts: JSON.parse(row.artifacts) as string[],
+    error: row.error ?? undefined,
+    snapshotId: row.snapshot_id ?? undefined,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at ?? undefined,
+  }
+}
@@ -0,0 +1,83 @@
+import assert from "node:assert"
+import { describe, it } from "node:test"
+import { createShutdownHandler, drainOrAbort, waitForDrain } from "./shutdown.js"
+
+describe("waitForDrain", () => {
+  it("resolves true once drained", async () => {
+    let remaining = 3
+    const drained = await waitForDrain(() => --remaining <= 0, 1000, 1)
+    assert.strictEqual(drained, true)
+  })
+
+  it("resolves false when the deadline passes", async () => {
+    assert.strictEqual(await waitForDrain(() => false, 20, 5), false)
+  })
+})
+
+describe("drainOrAbort", () => {
+  it("doesn't abort work that drains in time", async () => {
+    let remaining = 2
+    let aborts = 0
+    assert.strictEqual(await drainOrAbort(() => --remaining <= 0, () => { aborts += 1 }, 1000, 1000, 1), true)
+    assert.strictEqual(aborts, 0)
+  })
+
+  it("aborts work still running at the deadline and waits for it to stop", async () => {
+    let running = true
+    const events: string[] = []
+    const drained = await drainOrAbort(
+      () => !running,
+      () => {
+        events.push("abort")
+        setTimeout(() => {
+          running = false
+          events.push("stopped")
+        }, 10)
+      },
+      20,
+      1000,
+      5
+    )
+    events.push("closed")
+    assert.strictEqual(drained, false)
+    assert.deepStrictEqual(events, ["abort", "stopped", "closed"])
+  })
+
+  it("gives up on work that ignores the abort after the grace period", async () => {
+    let aborts = 0
+    const startedAt = Date.now()
+    assert.strictEqual(await drainOrAbort(() => false, () => { aborts += 1 }, 10, 20, 5), false)
+    assert.strictEqual(aborts, 1)
+    assert.ok(Date.now() - startedAt >= 25)
+  })
+})
+
+describe("createShutdownHandler", () => {
+  it("runs shutdown once and exits immediately on a second signal", async () => {
+    const exits: number[] = []
+    let calls = 0
+    let finish: () => void = () => {}
+    const handler = createShutdownHandler(() => {
+      calls += 1
+      return new Promise<void>((resolve) => { finish = resolve })
+    }, (code) => exits.push(code))
+
+    handler("SIGTERM")
+    handler("SIGINT")
+    assert.strictEqual(calls, 1)
+    assert.deepStrictEqual(exits, [1])
+
+    finish()
+    await new Promise((resolve) => setImmediate(resolve))
+    assert.deepStrictEqual(exits, [1, 0])
+  })
+
+  it("exits non-zero when shutdown fails", async () => {
+    const exits: number[] = []
+    const handler = createShutdownHandler(async () => { throw new Error("boom") }, (code) => exits.push(code))
+
+    handler("SIGTERM")
+    await new Promise((resolve) => setImmediate(resolve))
+    assert.deepStrictEqual(exits, [1])
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * Graceful shutdown helpers.
+ *
+ * On SIGTERM/SIGINT the app stops taking new work and gives running turns a
+ * deadline to finish before exiting. A second signal exits immediately.
+ */
+
+import * as log from "./logger.js"
+
+const DRAIN_POLL_MS = 250
+// How long aborted work gets to unwind before the caller releases what it uses.
+const ABORT_GRACE_MS = 5000
+
+/**
+ * Resolve true once `isDrained` holds, or false if the deadline passes first.
+ */
+export async function waitForDrain(
+  isDrained: () => boolean,
+  timeoutMs: number,
+  pollMs = DRAIN_POLL_MS
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs
+  while (!isDrained()) {
+    if (Date.now() >= deadline) return false
+    await new Promise((resolve) => setTimeout(resolve, Math.min(pollMs, Math.max(0, deadline - Date.now()))))
+  }
+  return true
+}
+
+/**
+ * Wait for in-flight work like `waitForDrain`. If the deadline passes, call
+ * `abort` and give the work `abortGraceMs` more to stop, so nothing is still
+ * writing when the caller closes shared resources. Resolves true only if the
+ * work finished before the deadline.
+ */
+export async function drainOrAbort(
+  isDrained: () => boolean,
+  abort: () => void,
+  timeoutMs: number,
+  abortGraceMs = ABORT_GRACE_MS,
+  pollMs = DRAIN_POLL_MS
+): Promise<boolean> {
+  if (await waitForDrain(isDrained, timeoutMs, pollMs)) return true
+  abort()
+  if (!await waitForDrain(isDrained, abortGraceMs, pollMs)) {
+    log.warn("In-flight work still running after abort", { abortGraceMs })
+  }
+  return false
+}
+
+/**
+ * Build a signal handler that runs `shutdown` once and then exits.
+ * A repeated signal while shutdown is in progress forces an immediate exit.
+ */
+export function createShutdownHandler(
+  shutdown: (signal: NodeJS.Signals) => Promise<void>,
+  exit: (code: number) => void = (code) => process.exit(code)
+): (signal: NodeJS.Signals) => void {
+  let shuttingDown = false
+  return (signal) => {
+    if (shuttingDown) {
+      log.warn("Received second shutdown signal, exiting immediately", { signal })
+      exit(1)
+      return
+    }
+    shuttingDown = true
+
+    shutdown(signal).then(
+      () => exit(0),
+      (err) => {
+        log.error("Graceful shutdown failed", err)
+        exit(1)
+      }
+    )
+  }
+}
+
+export function installShutdownHandlers(shutdown: (signal: NodeJS.Signals) => Promise<void>): void {
+  const handler = createShutdownHandler(shutdown)
+  process.on("SIGTERM", handler)
+  process.on("SIGINT", handler)
+}
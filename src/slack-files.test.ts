@@ -0,0 +1,103 @@
+import assert from "node:assert"
+import { describe, it } from "node:test"
+import {
+  downloadSlackFile,
+  formatAttachedFilesNote,
+  getSlackFiles,
+  MAX_PROMPT_IMAGE_BYTES,
+  toInputFilename,
+  toPromptImage,
+  type SlackFile,
+} from "./slack-files.js"
+
+const file: SlackFile = { id: "F1", name: "build.log", mimetype: "text/plain", size: 5, url: "https://files.slack.com/F1" }
+
+function fakeFetch(body: string, init: ResponseInit = {}, calls: Array<[string, RequestInit | undefined]> = []): typeof fetch {
+  return (async (url: string | URL | Request, options?: RequestInit) => {
+    calls.push([String(url), options])
+    return new Response(body, init)
+  }) as typeof fetch
+}
+
+describe("getSlackFiles", () => {
+  it("keeps files with a private download URL", () => {
+    const files = getSlackFiles({
+      files: [
+        { id: "F1", name: "build.log", url_private_download: "https://files.slack.com/dl/F1", size: 5 },
+        { id: "F2", url_private: "https://files.slack.com/F2" },
+        { id: "F3", name: "external link" },
+      ],
+    })
+    assert.deepStrictEqual(files.map((f) => [f.id, f.name, f.url]), [
+      ["F1", "build.log", "https://files.slack.com/dl/F1"],
+      ["F2", "F2", "https://files.slack.com/F2"],
+    ])
+    assert.deepStrictEqual(getSlackFiles({ text: "hi" }), [])
+  })
+})
+
+describe("toInputFilename", () => {
+  it("strips directories and unsafe characters and dedupes", () => {
+    const used = new Set<string>()
+    assert.strictEqual(toInputFilename("../../etc/passwd", used), "passwd")
+    assert.strictEqual(toInputFilename("my report (final).csv", used), "my_report_final_.csv")
+    assert.strictEqual(toInputFilename("my report (final).csv", used), "my_report_final_-2.csv")
+    assert.strictEqual(toInputFilename("..", used), "file")
+  })
+
+  it("keeps names and their suffixes within the tar name limit", () => {
+    const used = new Set<string>()
+    const first = toInputFilename(`${"a".repeat(150)}.log`, used)
+    const second = toInputFilename(`${"a".repeat(150)}.log`, used)
+    assert.strictEqual(first, `${"a".repeat(96)}.log`)
+    assert.strictEqual(second, `${"a".repeat(94)}-2.log`)
+    assert.strictEqual(toInputFilename(`x.${"b".repeat(150)}`, used).length, 100)
+  })
+})
+
+describe("downloadSlackFile", () => {
+  it("sends the bot token and returns the body", async () => {
+    const calls: Array<[string, RequestInit | undefined]> = []
+    const data = await downloadSlackFile(file, "xoxb-1", 100, fakeFetch("hello", {}, calls))
+    assert.strictEqual(data.toString(), "hello")
+    assert.deepStrictEqual(calls[0]?.[1]?.headers, { authorization: "Bearer xoxb-1" })
+  })
+
+  it("rejects oversized files and login pages", async () => {
+    await assert.rejects(downloadSlackFile({ ...file, size: 500 }, "t", 100, fakeFetch("")), /larger than/)
+    await assert.rejects(downloadSlackFile({ ...file, size: undefined }, "t", 3, fakeFetch("hello")), /larger than/)
+    await assert.rejects(
+      downloadSlackFile(file, "t", 100, fakeFetch("<html>", { headers: { "content-type": "text/html" } })),
+      /files:read/
+    )
+    await assert.rejects(downloadSlackFile(file, "t", 100, fakeFetch("", { status: 403 })), /403/)
+  })
+})
+
+describe("formatAttachedFilesNote", () => {
+  it("lists saved paths and failures", () => {
+    assert.strictEqual(
+      formatAttachedFilesNote(["inputs/a.log"], ["b.zip is larger than 20 MB"]),
+      "[Files attached to this message were saved in the coding subagent's workspace: `inputs/a.log`]\n"
+        + "[Some attachments could not be saved: b.zip is larger than 20 MB]"
+    )
+    assert.strictEqual(formatAttachedFilesNote([], []), "")
+  })
+
+  it("tells the orchestrator how to forward images", () => {
+    assert.match(
+      formatAttachedFilesNote(["inputs/shot.png"], [], ["inputs/shot.png"]),
+      /pass `inputs\/shot.png` in run_coding_subagent's images parameter/
+    )
+  })
+})
+
+describe("toPromptImage", () => {
+  it("converts supported images within the size limit", () => {
+    const png = { ...file, name: "shot.png", mimetype: "image/png" }
+    assert.deepStrictEqual(toPromptImage(png, Buffer.from("png")), { type: "image", data: "cG5n", mimeType: "image/png" })
+    assert.strictEqual(toPromptImage(png, Buffer.alloc(MAX_PROMPT_IMAGE_BYTES + 1)), undefined)
+    assert.strictEqual(toPromptImage({ ...png, mimetype: "image/svg+xml" }, Buffer.from("<svg/>")), undefined)
+    assert.strictEqual(toPromptImage(file, Buffer.from("log")), undefined)
+  })
+})
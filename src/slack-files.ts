@@ -0,0 +1,157 @@
+/**
+ * Slack file attachments.
+ *
+ * Files shared with a message are downloaded with the bot token and written
+ * into the thread's sandbox under `inputs/`; the prompt gets a note listing
+ * where they landed so the orchestrator can point the subagent at them.
+ * Images are also passed to the orchestrator as image content.
+ */
+
+export interface SlackFile {
+  id: string
+  name: string
+  mimetype?: string
+  size?: number
+  url: string
+}
+
+export interface DownloadedSlackFile {
+  file: SlackFile
+  data: Buffer
+}
+
+/** Image content passed to Pi alongside a prompt. */
+export interface PromptImage {
+  type: "image"
+  data: string
+  mimeType: string
+}
+
+export const MAX_SLACK_FILE_BYTES = 20 * 1024 * 1024
+export const MAX_SLACK_FILES_PER_MESSAGE = 10
+export const MAX_PROMPT_IMAGE_BYTES = 5 * 1024 * 1024
+export const MAX_PROMPT_IMAGES = 5
+
+// Image formats the model accepts as image content.
+const PROMPT_IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"])
+
+// Cleaned names are ASCII, so this is also the byte length tar allows.
+const MAX_INPUT_FILENAME_LENGTH = 100
+const MAX_KEPT_EXTENSION_LENGTH = 16
+
+/**
+ * Pull downloadable files out of a Slack message event. Files Slack hasn't
+ * finished processing, or external links without a private URL, are skipped.
+ */
+export function getSlackFiles(event: unknown): SlackFile[] {
+  const files = (event as { files?: unknown }).files
+  if (!Array.isArray(files)) return []
+
+  const result: SlackFile[] = []
+  for (const raw of files) {
+    const file = raw as Record<string, unknown>
+    const url = file.url_private_download ?? file.url_private
+    if (typeof file.id !== "string" || typeof url !== "string") continue
+    result.push({
+      id: file.id,
+      name: typeof file.name === "string" && file.name ? file.name : file.id,
+      mimetype: typeof file.mimetype === "string" ? file.mimetype : undefined,
+      size: typeof file.size === "number" ? file.size : undefined,
+      url,
+    })
+  }
+  return result
+}
+
+/**
+ * Reduce a Slack filename to a safe basename, adding a numeric suffix if an
+ * earlier file in the same batch already took the name. Names are cut to fit
+ * a tar header's 100-byte name field, suffix included, keeping a short
+ * extension so the file type survives.
+ */
+export function toInputFilename(name: string, used: Set<string>): string {
+  const base = name.split(/[\\/]/).pop() ?? ""
+  const cleaned = base.replace(/[^A-Za-z0-9._-]+/g, "_").replace(/^[.]+/, "") || "file"
+
+  const dot = cleaned.lastIndexOf(".")
+  const ext = dot > 0 && cleaned.length - dot <= MAX_KEPT_EXTENSION_LENGTH ? cleaned.slice(dot) : ""
+  const stem = cleaned.slice(0, cleaned.length - ext.length)
+  const fit = (suffix: string) => `${stem.slice(0, MAX_INPUT_FILENAME_LENGTH - suffix.length - ext.length)}${suffix}${ext}`
+
+  let candidate = fit("")
+  for (let n = 2; used.has(candidate); n++) {
+    candidate = fit(`-${n}`)
+  }
+  used.add(candidate)
+  return candidate
+}
+
+export async function downloadSlackFile(
+  file: SlackFile,
+  token: string,
+  maxBytes = MAX_SLACK_FILE_BYTES,
+  fetchImpl: typeof fetch = fetch
+): Promise<Buffer> {
+  if (file.size !== undefined && file.size > maxBytes) {
+    throw new Error(`${file.name} is larger than ${formatBytes(maxBytes)}`)
+  }
+
+  const response = await fetchImpl(file.url, { headers: { authorization: `Bearer ${token}` } })
+  if (!response.ok) {
+    throw new Error(`Slack returned ${response.status} for ${file.name}`)
+  }
+  // Slack answers an unauthorized download with its HTML login page and a 200.
+  if (response.headers.get("content-type")?.startsWith("text/html") && !file.mimetype?.startsWith("text/html")) {
+    throw new Error(`Slack did not return file content for ${file.name}; check the files:read scope`)
+  }
+
+  const data = Buffer.from(await response.arrayBuffer())
+  if (data.length > maxBytes) {
+    throw new Error(`${file.name} is larger than ${formatBytes(maxBytes)}`)
+  }
+  return data
+}
+
+/**
+ * Image content for a downloaded file, or undefined if it isn't a supported
+ * image or is too large to send to the model.
+ */
+export function toPromptImage(file: SlackFile, data: Buffer): PromptImage | undefined {
+  if (!file.mimetype || !PROMPT_IMAGE_TYPES.has(file.mimetype)) return undefined
+  if (data.length > MAX_PROMPT_IMAGE_BYTES) return undefined
+  return { type: "image", data: data.toString("base64"), mimeType: file.mimetype }
+}
+
+export function isSlackImage(file: SlackFile): boolean {
+  return file.mimetype !== undefined && PROMPT_IMAGE_TYPES.has(file.mimetype)
+}
+
+function formatBytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`
+}
+
+/**
+ * Prompt note telling the orchestrator where attachments were saved and
+ * which ones could not be.
+ */
+export function formatAttachedFilesNote(paths: string[], failures: string[], imagePaths: string[] = []): string {
+  const lines: string[] = []
+  if (paths.length > 0) {
+    lines.push(
+      "[Files attached to this message were saved in the coding subagent's workspace: "
+      + paths.map((path) => `\`${path}\``).join(", ")
+      + "]"
+    )
+  }
+  if (imagePaths.length > 0) {
+    lines.push(
+      "[Attached images are included with this message. To let the coding subagent see them, pass "
+      + imagePaths.map((path) => `\`${path}\``).join(", ")
+      + " in run_coding_subagent's images parameter.]"
+    )
+  }
+  if (failures.length > 0) {
+    lines.push(`[Some attachments could not be saved: ${failures.join("; ")}]`)
+  }
+  return lines.join("\n")
+}
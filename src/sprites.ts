@@ -8,11 +8,24 @@
  *
  * @see https://sprites.dev/api
  * @see https://sprites.dev/api/sprites/exec
+ * @see https://sprites.dev/api/sprites/filesystem
  */
 
+import { Readable } from "node:stream"
+import { StringDecoder } from "node:string_decoder"
+import type { ReadableStream as WebReadableStream } from "node:stream/web"
 import WebSocket from "ws"
 import * as log from "./logger.js"
-import type { SandboxClient } from "./sandbox.js"
+import { sandboxExecRetries } from "./metrics.js"
+import type { SandboxClient, SandboxEnsureResult, SandboxExecOptions, SandboxFileTransferOptions } from "./sandbox.js"
+import {
+  assertWithinTransferLimit,
+  createVerifyingStream,
+  readStreamToBuffer,
+  SANDBOX_FILE_MAX_BYTES,
+  statSandboxFile,
+  verifySandboxUpload,
+} from "./sandbox-files.js"
 
 const API_BASE = "https://api.sprites.dev"
 const WS_BASE = "wss://api.sprites.dev"
@@ -20,6 +33,17 @@ const WS_BASE = "wss://api.sprites.dev"
 // Sprite's Node.js prefix — update when sprite base image bumps Node version
 const SPRITE_NODE_PREFIX = "/.sprite/languages/node/nvm/versions/node/v22.20.0"
 
+// Forks copy the source's home directory through the filesystem API.
+const FORK_MAX_BYTES = 1024 * 1024 * 1024
+const FORK_TIMEOUT_MS = 600000
+
+function forkArchivePath(checkpointId: string): string {
+  if (!/^[\w.-]+$/.test(checkpointId)) {
+    throw new Error(`Invalid checkpoint id: ${checkpointId}`)
+  }
+  return `/tmp/jane-${checkpointId}.tar.gz`
+}
+
 export interface SpriteInfo {
   id: string
   name: string
@@ -152,6 +176,35 @@ export class SpritesClient implements SandboxClient {
     await this.request<void>("DELETE", `/v1/sprites/${name}`)
   }
 
+  /**
+   * Stop a sprite. Sprites hibernate on their own once idle, so this only
+   * records intent; the filesystem is kept either way.
+   */
+  async stop(name: string): Promise<void> {
+    log.debug("Sprites hibernate automatically; nothing to stop", { name })
+  }
+
+  /**
+   * Start a sprite. Any exec wakes a hibernated sprite, so a cheap no-op
+   * command is enough.
+   */
+  async start(name: string): Promise<void> {
+    const result = await this.exec(name, ["true"], { timeoutMs: 60000 })
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to start sprite ${name}: ${result.stderr}`)
+    }
+  }
+
+  /**
+   * Create the sprite if it is missing. Hibernated sprites wake on the next
+   * exec, so an existing sprite always counts as running.
+   */
+  async ensureRunning(name: string): Promise<SandboxEnsureResult> {
+    if (await this.get(name)) return "running"
+    await this.create(name)
+    return "created"
+  }
+
   /**
    * Execute a command in a sprite via WebSocket.
    *
@@ -163,7 +216,7 @@ export class SpritesClient implements SandboxClient {
   async exec(
     name: string,
     command: string[],
-    options: { env?: Record<string, string>; dir?: string; stdin?: string; timeoutMs?: number; maxRetries?: number } = {}
+    options: SandboxExecOptions = {}
   ): Promise<ExecResult> {
     const maxRetries = options.maxRetries ?? 3
     let lastError: Error | undefined
@@ -177,7 +230,7 @@ export class SpritesClient implements SandboxClient {
         // Only retry on transient 500 errors (not 404 — sprite doesn't exist)
         const isTransient = (lastError.message.includes("500") || lastError.message.includes("Unexpected server response"))
           && !lastError.message.includes("404")
-        if (!isTransient || attempt >= maxRetries) {
+        if (!isTransient || attempt >= maxRetries || options.signal?.aborted) {
           throw lastError
         }
 
@@ -190,6 +243,7 @@ export class SpritesClient implements SandboxClient {
           delayMs,
           error: lastError.message 
         })
+        sandboxExecRetries.inc({ backend: "sprites" })
         await new Promise(resolve => setTimeout(resolve, delayMs))
       }
     }
@@ -203,7 +257,7 @@ export class SpritesClient implements SandboxClient {
   private async execOnce(
     name: string,
     command: string[],
-    options: { env?: Record<string, string>; dir?: string; stdin?: string; timeoutMs?: number } = {}
+    options: SandboxExecOptions = {}
   ): Promise<ExecResult> {
     const params = new URLSearchParams()
 
@@ -233,11 +287,20 @@ export class SpritesClient implements SandboxClient {
     const url = `${WS_BASE}/v1/sprites/${name}/exec?${params.toString()}`
     
     return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(options.signal.reason)
+        return
+      }
+
       const timeoutMs = options.timeoutMs ?? 300000 // 5 minute default
       let stdout = ""
       let stderr = ""
       let exitCode = 0
       let resolved = false
+      // Frames can split a multi-byte character, so decode each stream
+      // incrementally rather than frame by frame.
+      const stdoutDecoder = new StringDecoder("utf8")
+      const stderrDecoder = new StringDecoder("utf8")
 
       const ws = new WebSocket(url, {
         headers: {
@@ -257,10 +320,21 @@ export class SpritesClient implements SandboxClient {
             stderrPreview: stderr.slice(0, 500),
           }
           log.error("Sprites exec timeout", { name, timeoutMs, ...debugInfo })
+          options.signal?.removeEventListener("abort", onAbort)
           reject(new Error(`Sprites exec timeout after ${timeoutMs}ms`))
         }
       }, timeoutMs)
 
+      const onAbort = () => {
+        if (!resolved) {
+          resolved = true
+          clearTimeout(timeout)
+          ws.close()
+          reject(options.signal?.reason)
+        }
+      }
+      options.signal?.addEventListener("abort", onAbort, { once: true })
+
       ws.on("open", () => {
         // Send stdin if provided
         if (options.stdin) {
@@ -295,11 +369,14 @@ export class SpritesClient implements SandboxClient {
         const payload = data.subarray(1)
 
         switch (streamId) {
-          case 1: // stdout
-            stdout += payload.toString("utf-8")
+          case 1: { // stdout
+            const chunk = stdoutDecoder.write(payload)
+            stdout += chunk
+            options.onStdout?.(chunk)
             break
+          }
           case 2: // stderr
-            stderr += payload.toString("utf-8")
+            stderr += stderrDecoder.write(payload)
             break
           case 3: // exit (payload is exit code byte)
             exitCode = payload[0] ?? 0
@@ -311,6 +388,13 @@ export class SpritesClient implements SandboxClient {
         if (!resolved) {
           resolved = true
           clearTimeout(timeout)
+          options.signal?.removeEventListener("abort", onAbort)
+          const tail = stdoutDecoder.end()
+          if (tail) {
+            stdout += tail
+            options.onStdout?.(tail)
+          }
+          stderr += stderrDecoder.end()
           resolve({ stdout, stderr, exitCode })
         }
       })
@@ -319,6 +403,7 @@ export class SpritesClient implements SandboxClient {
         if (!resolved) {
           resolved = true
           clearTimeout(timeout)
+          options.signal?.removeEventListener("abort", onAbort)
           // Include sprite name and URL context for debugging
           const errMsg = err.message || String(err)
           reject(new Error(`Sprites WebSocket error for ${name}: ${errMsg}`))
@@ -355,20 +440,132 @@ export class SpritesClient implements SandboxClient {
   }
 
   /**
-   * Download a file from a sprite as a Buffer.
-   * Uses base64 encoding via cat to handle binary files.
+   * Capture a sprite's home directory (minus `~/.cache`) for a fork and return
+   * its id. Sprites' own checkpoints can only be restored into the sprite that
+   * took them, so the fork checkpoint is a tarball kept in the source sprite
+   * until createFromCheckpoint consumes it.
    */
-  async downloadFile(name: string, path: string): Promise<Buffer> {
-    const result = await this.exec(name, [
-      "bash",
-      "-c",
-      `base64 "${path}"`,
-    ])
+  async checkpoint(name: string): Promise<string> {
+    const checkpointId = `fork-${Date.now().toString(36)}`
+    const archive = forkArchivePath(checkpointId)
+    log.info("Checkpointing sprite home directory", { name, checkpointId })
+    // GNU tar exits 1 when a file changed while it was read; the archive is still usable.
+    const packed = await this.exec(name, ["tar", "-czf", archive, "-C", this.homeDir, "--exclude=./.cache", "."], {
+      timeoutMs: FORK_TIMEOUT_MS,
+    })
+    if (packed.exitCode > 1) {
+      await this.exec(name, ["rm", "-f", archive]).catch(() => {})
+      throw new Error(`Failed to checkpoint ${name}: ${packed.stderr.trim() || packed.stdout.trim()}`)
+    }
+    return checkpointId
+  }
 
-    if (result.exitCode !== 0) {
-      throw new Error(`Failed to download file ${path}: ${result.stderr}`)
+  /**
+   * Create a sprite from a checkpoint of another: stream the archive from the
+   * source into the new sprite, unpack it, and remove it from both.
+   */
+  async createFromCheckpoint(name: string, source: string, checkpointId: string): Promise<SpriteInfo> {
+    log.info("Creating sprite from checkpoint", { name, source, checkpointId })
+    const archive = forkArchivePath(checkpointId)
+    try {
+      const expected = await statSandboxFile(this, source, archive)
+      assertWithinTransferLimit(archive, expected.size, FORK_MAX_BYTES)
+
+      const info = await this.create(name)
+      const params = new URLSearchParams({ path: archive, mkdir: "true" })
+      const data = await this.downloadFileStream(source, archive, { maxBytes: FORK_MAX_BYTES })
+      await this.fsRequest("PUT", `/v1/sprites/${name}/fs/write?${params.toString()}`, data)
+      const written = await statSandboxFile(this, name, archive)
+      if (written.sha256 !== expected.sha256) {
+        throw new Error(`Checksum mismatch after copying ${archive} into ${name}`)
+      }
+
+      const unpacked = await this.exec(name, ["bash", "-c", 'tar -xzf "$0" -C "$1" && rm -f "$0"', archive, this.homeDir], {
+        timeoutMs: FORK_TIMEOUT_MS,
+      })
+      if (unpacked.exitCode !== 0) {
+        throw new Error(`Failed to unpack fork into ${name}: ${unpacked.stderr.trim() || unpacked.stdout.trim()}`)
+      }
+      return info
+    } finally {
+      await this.exec(source, ["rm", "-f", archive]).catch(() => {})
+    }
+  }
+
+  /**
+   * Raw request to the filesystem API. Unlike request(), the body is bytes
+   * or a stream and the response is returned unread so it can be streamed.
+   */
+  private async fsRequest(method: string, path: string, body?: Buffer | Readable): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        ...(body ? { "Content-Type": "application/octet-stream" } : {}),
+      },
+      body,
+      // Required by fetch for a streamed request body.
+      ...(body instanceof Readable ? { duplex: "half" as const } : {}),
+    })
+    if (!response.ok) {
+      throw new Error(`Sprites API error ${response.status}: ${await response.text()}`)
+    }
+    return response
+  }
+
+  /**
+   * Stream a file out of a sprite via the filesystem API.
+   */
+  async downloadFileStream(
+    name: string,
+    path: string,
+    options: SandboxFileTransferOptions = {}
+  ): Promise<Readable> {
+    const maxBytes = options.maxBytes ?? SANDBOX_FILE_MAX_BYTES
+    const expected = await statSandboxFile(this, name, path)
+    assertWithinTransferLimit(path, expected.size, maxBytes)
+
+    const params = new URLSearchParams({ path })
+    const response = await this.fsRequest("GET", `/v1/sprites/${name}/fs/read?${params.toString()}`)
+    if (!response.body) {
+      throw new Error(`Sprites API returned no content for ${path}`)
     }
 
-    return Buffer.from(result.stdout.trim(), "base64")
+    const verifier = createVerifyingStream(path, expected, maxBytes)
+    const body = Readable.fromWeb(response.body as WebReadableStream<Uint8Array>)
+    body.on("error", (err) => verifier.destroy(err))
+    verifier.on("close", () => body.destroy())
+    return body.pipe(verifier)
+  }
+
+  /**
+   * Download a file from a sprite as a Buffer.
+   */
+  async downloadFile(name: string, path: string, options?: SandboxFileTransferOptions): Promise<Buffer> {
+    try {
+      return await readStreamToBuffer(await this.downloadFileStream(name, path, options))
+    } catch (err) {
+      throw new Error(`Failed to download file ${path}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  /**
+   * Upload a file to a sprite via the filesystem API, creating parent directories.
+   */
+  async uploadFile(
+    name: string,
+    path: string,
+    data: Buffer,
+    options: SandboxFileTransferOptions = {}
+  ): Promise<void> {
+    assertWithinTransferLimit(path, data.length, options.maxBytes ?? SANDBOX_FILE_MAX_BYTES)
+
+    const params = new URLSearchParams({ path, mkdir: "true" })
+    try {
+      await this.fsRequest("PUT", `/v1/sprites/${name}/fs/write?${params.toString()}`, data)
+    } catch (err) {
+      throw new Error(`Failed to upload file ${path}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    await verifySandboxUpload(this, name, path, data)
   }
 }
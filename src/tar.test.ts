@@ -0,0 +1,46 @@
+import assert from "node:assert"
+import { Readable } from "node:stream"
+import { describe, it } from "node:test"
+import { readStreamToBuffer } from "./sandbox-files.js"
+import { createTarFile, TarFileExtractor } from "./tar.js"
+
+function extract(chunks: Buffer[]): Promise<Buffer> {
+  return readStreamToBuffer(Readable.from(chunks).pipe(new TarFileExtractor()))
+}
+
+function splitEvery(data: Buffer, size: number): Buffer[] {
+  const chunks: Buffer[] = []
+  for (let offset = 0; offset < data.length; offset += size) chunks.push(data.subarray(offset, offset + size))
+  return chunks
+}
+
+describe("tar", () => {
+  it("round-trips a file across arbitrary chunk boundaries", async () => {
+    const data = Buffer.from("x".repeat(1300))
+    const archive = createTarFile("notes.txt", data)
+    assert.strictEqual(archive.length % 512, 0)
+
+    assert.deepStrictEqual(await extract([archive]), data)
+    assert.deepStrictEqual(await extract(splitEvery(archive, 7)), data)
+    assert.deepStrictEqual(await extract([createTarFile("empty", Buffer.alloc(0))]), Buffer.alloc(0))
+  })
+
+  it("skips pax headers before the file", async () => {
+    const pax = createTarFile("PaxHeader", Buffer.from("30 path=some/very/long/name.txt\n"))
+    pax.write("x", 156, "ascii")
+    const file = createTarFile("name.txt", Buffer.from("hello"))
+    const paxEntry = pax.subarray(0, pax.length - 1024)
+
+    assert.strictEqual((await extract([paxEntry, file])).toString(), "hello")
+  })
+
+  it("rejects truncated archives and non-file entries", async () => {
+    const archive = createTarFile("notes.txt", Buffer.from("hello world"))
+    await assert.rejects(extract([archive.subarray(0, 520)]), /ended before/)
+
+    const directory = createTarFile("dir", Buffer.alloc(0))
+    directory.write("5", 156, "ascii")
+    await assert.rejects(extract([directory]), /regular file/)
+    assert.throws(() => createTarFile("a/b", Buffer.alloc(0)), /Invalid tar entry name/)
+  })
+})
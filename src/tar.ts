@@ -0,0 +1,134 @@
+/**
+ * Minimal single-file tar support for `docker cp` streams.
+ *
+ * `docker cp - <container>:<dir>` expects a tar archive on stdin and
+ * `docker cp <container>:<path> -` writes one to stdout. Only what those two
+ * need is implemented: writing one regular file, and extracting the first
+ * regular file while skipping pax/GNU metadata entries.
+ */
+
+import { Transform, type TransformCallback } from "node:stream"
+
+const BLOCK_SIZE = 512
+
+// Metadata entries that precede the real file: pax (x, g) and GNU long names (L, K).
+const METADATA_TYPES = new Set(["x", "g", "L", "K"])
+
+function writeOctal(header: Buffer, offset: number, length: number, value: number): void {
+  header.write(`${value.toString(8).padStart(length - 1, "0")}\0`, offset, length, "ascii")
+}
+
+function readOctal(field: Buffer): number {
+  const text = field.toString("ascii").replace(/\0.*$/s, "").trim()
+  return text ? parseInt(text, 8) : 0
+}
+
+function paddingFor(size: number): number {
+  return (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE
+}
+
+/**
+ * Build a tar archive holding one regular file named `filename`.
+ */
+export function createTarFile(filename: string, data: Buffer, mtimeMs = Date.now()): Buffer {
+  const name = Buffer.from(filename)
+  if (name.length === 0 || name.length > 100 || filename.includes("/")) {
+    throw new Error(`Invalid tar entry name: ${filename}`)
+  }
+
+  const header = Buffer.alloc(BLOCK_SIZE)
+  name.copy(header, 0)
+  writeOctal(header, 100, 8, 0o644)
+  writeOctal(header, 108, 8, 0)
+  writeOctal(header, 116, 8, 0)
+  writeOctal(header, 124, 12, data.length)
+  writeOctal(header, 136, 12, Math.floor(mtimeMs / 1000))
+  header.fill(0x20, 148, 156)
+  header.write("0", 156, "ascii")
+  header.write("ustar\0", 257, "ascii")
+  header.write("00", 263, "ascii")
+
+  let checksum = 0
+  for (const byte of header) checksum += byte
+  writeOctal(header, 148, 7, checksum)
+
+  return Buffer.concat([header, data, Buffer.alloc(paddingFor(data.length)), Buffer.alloc(BLOCK_SIZE * 2)])
+}
+
+/**
+ * Transform a tar stream into the contents of its first regular file.
+ * Errors if the archive holds something else first or ends early.
+ */
+export class TarFileExtractor extends Transform {
+  private header = Buffer.alloc(0)
+  private remaining = 0
+  private padding = 0
+  private inFile = false
+  private found = false
+  private done = false
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      let offset = 0
+      while (offset < chunk.length && !this.done) {
+        if (this.remaining > 0) {
+          const take = Math.min(this.remaining, chunk.length - offset)
+          if (this.inFile) this.push(chunk.subarray(offset, offset + take))
+          this.remaining -= take
+          offset += take
+          if (this.remaining === 0 && this.inFile) this.done = true
+          continue
+        }
+        if (this.padding > 0) {
+          const take = Math.min(this.padding, chunk.length - offset)
+          this.padding -= take
+          offset += take
+          continue
+        }
+
+        const take = Math.min(BLOCK_SIZE - this.header.length, chunk.length - offset)
+        this.header = Buffer.concat([this.header, chunk.subarray(offset, offset + take)])
+        offset += take
+        if (this.header.length < BLOCK_SIZE) continue
+        this.readHeader()
+      }
+      callback()
+    } catch (err) {
+      callback(err instanceof Error ? err : new Error(String(err)))
+    }
+  }
+
+  override _flush(callback: TransformCallback): void {
+    if (!this.found || !this.done) {
+      callback(new Error("Tar stream ended before a complete file was read"))
+      return
+    }
+    callback()
+  }
+
+  private readHeader(): void {
+    const header = this.header
+    this.header = Buffer.alloc(0)
+
+    if (header.every((byte) => byte === 0)) {
+      this.done = true
+      return
+    }
+
+    const size = readOctal(header.subarray(124, 136))
+    const type = String.fromCharCode(header[156] ?? 0)
+    if (type === "0" || type === "\0") {
+      this.found = true
+      this.inFile = true
+      this.remaining = size
+      if (size === 0) this.done = true
+      return
+    }
+    if (METADATA_TYPES.has(type)) {
+      this.remaining = size
+      this.padding = paddingFor(size)
+      return
+    }
+    throw new Error(`Expected a regular file in tar stream, got entry type "${type}"`)
+  }
+}
@@ -0,0 +1,34 @@
+import assert from "node:assert"
+import { describe, it } from "node:test"
+import {
+  buildControlledMessageBlocks,
+  buildThreadActionsBlock,
+  MAX_SECTION_TEXT_LENGTH,
+  parseThreadActionId,
+  REPLY_ACTIONS,
+} from "./thread-controls.js"
+
+describe("thread controls", () => {
+  it("round-trips action ids and carries the thread in each button", () => {
+    const block = buildThreadActionsBlock("1234.5678", REPLY_ACTIONS)
+    const ids = block.elements.map((element) => (element as { action_id: string }).action_id)
+    assert.deepStrictEqual(ids.map(parseThreadActionId), ["retry", "reset", "status"])
+    assert.ok(block.elements.every((element) => (element as { value?: string }).value === "1234.5678"))
+    assert.strictEqual(parseThreadActionId("jane_thread_delete"), undefined)
+    assert.strictEqual(parseThreadActionId("other_abort"), undefined)
+  })
+
+  it("asks for confirmation before destructive actions", () => {
+    const block = buildThreadActionsBlock("1", ["abort", "status", "retry", "reset"])
+    const confirms = block.elements.map((element) => (element as { confirm?: { style?: string } }).confirm)
+    assert.deepStrictEqual(confirms.map((confirm) => confirm?.style), ["danger", undefined, undefined, "danger"])
+  })
+
+  it("only builds section blocks for text Slack accepts", () => {
+    const blocks = buildControlledMessageBlocks("Done.", "1", ["abort"])
+    assert.deepStrictEqual(blocks?.map((block) => block.type), ["section", "actions"])
+    assert.deepStrictEqual(buildControlledMessageBlocks("Done.", "1", [])?.map((block) => block.type), ["section"])
+    assert.strictEqual(buildControlledMessageBlocks("x".repeat(MAX_SECTION_TEXT_LENGTH + 1), "1", ["abort"]), undefined)
+    assert.strictEqual(buildControlledMessageBlocks("", "1", ["abort"]), undefined)
+  })
+})
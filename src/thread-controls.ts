@@ -0,0 +1,92 @@
+/**
+ * Block Kit controls on Jane's messages.
+ *
+ * Live status messages carry Abort and Status buttons; final replies carry
+ * Retry, Reset and Status. Each button's value is the thread it controls, so
+ * the action handler doesn't depend on which message was clicked.
+ */
+
+import type { types } from "@slack/bolt"
+
+export type ThreadAction = "abort" | "status" | "retry" | "reset"
+
+const ACTION_ID_PREFIX = "jane_thread_"
+
+export const ACTION_ID_PATTERN = new RegExp(`^${ACTION_ID_PREFIX}`)
+
+// Slack rejects section blocks with more text than this.
+export const MAX_SECTION_TEXT_LENGTH = 3000
+
+interface ButtonSpec {
+  text: string
+  style?: "danger" | "primary"
+  // Destructive actions ask before they run; one stray click shouldn't lose work.
+  confirm?: { title: string; text: string; confirm: string }
+}
+
+const BUTTONS: Record<ThreadAction, ButtonSpec> = {
+  abort: {
+    text: "Abort",
+    style: "danger",
+    confirm: { title: "Abort this run?", text: "The coding subagent will stop its running job.", confirm: "Abort" },
+  },
+  status: { text: "Status" },
+  retry: { text: "Retry last turn" },
+  reset: {
+    text: "Reset sandbox",
+    confirm: { title: "Reset the sandbox?", text: "The coding subagent's sandbox, files and history will be deleted.", confirm: "Reset" },
+  },
+}
+
+export const STATUS_MESSAGE_ACTIONS: ThreadAction[] = ["abort", "status"]
+export const REPLY_ACTIONS: ThreadAction[] = ["retry", "reset", "status"]
+
+export function parseThreadActionId(actionId: string): ThreadAction | undefined {
+  if (!actionId.startsWith(ACTION_ID_PREFIX)) return undefined
+  const action = actionId.slice(ACTION_ID_PREFIX.length)
+  return action in BUTTONS ? (action as ThreadAction) : undefined
+}
+
+export function buildThreadActionsBlock(threadTs: string, actions: ThreadAction[]): types.ActionsBlock {
+  return {
+    type: "actions",
+    block_id: "jane_thread_controls",
+    elements: actions.map((action): types.Button => {
+      const { text, style, confirm } = BUTTONS[action]
+      return {
+        type: "button",
+        action_id: `${ACTION_ID_PREFIX}${action}`,
+        text: { type: "plain_text", text },
+        value: threadTs,
+        ...(style ? { style } : {}),
+        ...(confirm ? { confirm: buildConfirmDialog(confirm) } : {}),
+      }
+    }),
+  }
+}
+
+function buildConfirmDialog(confirm: NonNullable<ButtonSpec["confirm"]>): types.ConfirmationDialog {
+  return {
+    title: { type: "plain_text", text: confirm.title },
+    text: { type: "plain_text", text: confirm.text },
+    confirm: { type: "plain_text", text: confirm.confirm },
+    deny: { type: "plain_text", text: "Cancel" },
+    style: "danger",
+  }
+}
+
+/**
+ * Blocks rendering `text` with controls underneath (none if `actions` is
+ * empty), or undefined when the text is too long for a section block and
+ * must be sent as plain text.
+ */
+export function buildControlledMessageBlocks(
+  text: string,
+  threadTs: string,
+  actions: ThreadAction[]
+): types.KnownBlock[] | undefined {
+  if (text.length === 0 || text.length > MAX_SECTION_TEXT_LENGTH) return undefined
+  const blocks: types.KnownBlock[] = [{ type: "section", text: { type: "mrkdwn", text } }]
+  if (actions.length > 0) blocks.push(buildThreadActionsBlock(threadTs, actions))
+  return blocks
+}
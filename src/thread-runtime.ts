@@ -1,9 +1,14 @@
 import { readFileSync } from "fs"
 import { join, dirname } from "path"
 import { fileURLToPath } from "url"
-import { runCodingSubagent } from "./coding-subagent.js"
-import { runOrchestratorTurn } from "./orchestrator.js"
+import { forkSubagentSession, listSubagentSnapshots, runCodingSubagent, undoLastSubagentTurn } from "./coding-subagent.js"
+import { resetOrchestratorSession, runOrchestratorTurn, type ProgressCallback } from "./orchestrator.js"
+import type { PromptImage } from "./slack-files.js"
 import type { GeneratedFile } from "./pi-output.js"
+import { formatSandboxPoolStatus, getSandboxPool } from "./sandbox-pool.js"
+import { formatUsageReport } from "./usage.js"
+import { formatJobHistoryReport } from "./job-history.js"
+import { formatSnapshotList } from "./workspace-snapshots.js"
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 const soulPath = join(__dirname, "..", "SOUL.md")
@@ -14,7 +19,23 @@ try {
   // SOUL.md is optional
 }
 
-export type ThreadControlCommand = "status" | "abort"
+export type ThreadControlCommand =
+  | "status"
+  | "abort"
+  | "reset"
+  | "reset-all"
+  | "cost"
+  | "history"
+  | "undo"
+  | "snapshots"
+  | "fork"
+
+/**
+ * Post the root message of a fork's new thread in the same channel and
+ * return its ts, plus a link to it for the reply in the original thread and
+ * a way to take the message back down if the fork fails.
+ */
+export type StartForkThread = () => Promise<{ threadTs: string; permalink?: string; discard: () => Promise<void> }>
 
 export interface ThreadTurnInput {
   userId: string
@@ -22,12 +43,14 @@ export interface ThreadTurnInput {
   threadTs: string
   eventTs: string
   message: string
-  progressCallback?: (message: string) => Promise<void>
+  images?: PromptImage[]
+  progressCallback?: ProgressCallback
 }
 
 export interface ThreadTurnResult {
   content: string
   generatedFiles: GeneratedFile[]
+  diffSummaries: string[]
 }
 
 export function hasSoulPrompt(): boolean {
@@ -43,6 +66,9 @@ export function buildSubagentSystemPrompt(userId: string): string {
 - You cannot access other conversations. You only see the provided Slack thread history.
 - Never share credentials, tokens, or secrets.
 
+## File Input
+- Files the user attached in Slack are in the inputs/ directory of your workspace.
+
 ## File Output
 - If you generate files for the user, write them to the artifacts/ directory in your home folder.
 `
@@ -62,6 +88,9 @@ export function buildOrchestratorSystemPrompt(userId: string): string {
 - You may call the tool multiple times in one response to iterate.
 - Use action="status" when you need current state.
 - Use action="abort" only if the user explicitly asks to stop work.
+- Use action="reset" only if the user asks for a fresh environment or the sandbox is broken beyond repair; it throws away the subagent's workspace and history.
+- Files users attach in Slack are saved under inputs/ in the subagent's workspace; pass those paths along when the task involves them.
+- Attached images are shown to you directly. When the subagent needs to see one (e.g. a screenshot of a bug), list its inputs/ path in the images parameter of action="send".
 
 ## Communication
 - After tool calls, summarize outcomes clearly for the user.
@@ -79,14 +108,88 @@ export function extractControlCommand(rawText: string): ThreadControlCommand | n
   const value = rawText.trim().toLowerCase()
   if (value === "/status" || value === "status") return "status"
   if (value === "/abort" || value === "abort") return "abort"
+  if (value === "/cost" || value === "cost") return "cost"
+  if (value === "/history" || value === "history") return "history"
+  if (value === "/snapshots" || value === "snapshots") return "snapshots"
+  // Destructive, so only the slash forms count.
+  if (value === "/undo") return "undo"
+  if (value === "/fork") return "fork"
+  if (value === "/reset") return "reset"
+  if (value === "/reset all") return "reset-all"
   return null
 }
 
 export async function runControlCommand(
   command: ThreadControlCommand,
   channelId: string,
-  threadTs: string
+  threadTs: string,
+  userId?: string,
+  startForkThread?: StartForkThread
 ): Promise<string> {
+  if (command === "cost") {
+    return formatUsageReport(`${channelId}:${threadTs}`, userId)
+  }
+
+  if (command === "history") {
+    return formatJobHistoryReport(`${channelId}:${threadTs}`)
+  }
+
+  if (command === "snapshots") {
+    const result = await listSubagentSnapshots(channelId, threadTs)
+    if (!result) {
+      return "No coding subagent session exists for this thread yet."
+    }
+    return formatSnapshotList(result.snapshots, result.jobs, Date.now())
+  }
+
+  if (command === "undo") {
+    const result = await undoLastSubagentTurn(channelId, threadTs)
+    if (result.status === "not_found") {
+      return "No coding subagent session exists for this thread yet."
+    }
+    if (result.status === "busy") {
+      return "A coding job is running in this thread. Wait for it to finish, or `/abort` it, before undoing."
+    }
+    if (result.status !== "restored") {
+      return "There's no workspace snapshot left to restore in this thread."
+    }
+    const instruction = result.instruction.trim().split("\n")[0]?.slice(0, 80) ?? ""
+    return [
+      `Restored the workspace to how it was before \`${result.jobId}\` (${instruction}).`,
+      "The subagent still remembers that turn, so mention the undo if you ask it to try again.",
+    ].join("\n")
+  }
+
+  if (command === "fork") {
+    if (!startForkThread) {
+      return "Send `/fork` as a message in the thread you want to fork."
+    }
+    let thread: Awaited<ReturnType<StartForkThread>> | undefined
+    let result: Awaited<ReturnType<typeof forkSubagentSession>>
+    try {
+      result = await forkSubagentSession(channelId, threadTs, async () => {
+        thread = await startForkThread()
+        return thread.threadTs
+      })
+    } catch (err) {
+      await thread?.discard()
+      throw err
+    }
+    if (result.status === "not_found") {
+      return "No coding subagent session exists for this thread yet, so there's nothing to fork."
+    }
+    if (result.status === "busy") {
+      return "A coding job is running in this thread. Wait for it to finish, or `/abort` it, before forking."
+    }
+    if (result.status !== "forked") {
+      return "This thread's sandbox has been deleted, so there's no workspace left to fork."
+    }
+    return [
+      `Forked this thread into ${thread?.permalink ?? "a new thread"}.`,
+      "It starts from a checkpoint of this sandbox and the subagent's session so far; the two threads go their own way from here.",
+    ].join("\n")
+  }
+
   if (command === "status") {
     const result = await runCodingSubagent({
       action: "status",
@@ -94,27 +197,58 @@ export async function runControlCommand(
       threadTs,
     })
 
+    const pool = getSandboxPool()
+    const poolStatus = pool ? `warm pool: ${formatSandboxPoolStatus(pool.status())}` : undefined
+
     if (result.status === "not_found") {
-      return "No coding subagent session exists for this thread yet."
+      return ["No coding subagent session exists for this thread yet.", poolStatus].filter(Boolean).join(" | ")
     }
 
     return [
       `status: ${result.status}`,
       result.jobId ? `job: ${result.jobId}` : undefined,
       result.subagentSessionId ? `session: ${result.subagentSessionId}` : undefined,
+      poolStatus,
     ].filter(Boolean).join(" | ")
   }
 
+  if (command === "reset" || command === "reset-all") {
+    const result = await runCodingSubagent({ action: "reset", channelId, threadTs })
+    if (result.status === "running") {
+      return result.content ?? "The coding job is still stopping. Try again shortly."
+    }
+
+    const lines = [
+      result.status === "not_found"
+        ? "No coding subagent session exists for this thread."
+        : "Reset the coding subagent for this thread. The next request starts a fresh sandbox and session.",
+    ]
+    if (command === "reset-all") {
+      const orchestrator = resetOrchestratorSession(channelId, threadTs)
+      if (orchestrator === "busy") {
+        lines.push("I'm in the middle of a turn here, so I kept my own conversation. Send `/reset all` again once I've replied.")
+      } else if (orchestrator === "reset") {
+        lines.push("I've also cleared my conversation for this thread and will reread it from Slack next time.")
+      }
+    }
+    return lines.join("\n")
+  }
+
+  return (await abortThreadJob(channelId, threadTs)) ?? "No active coding subagent session exists for this thread."
+}
+
+/**
+ * Abort the thread's running subagent job. Returns the reply for the thread,
+ * or undefined if the thread has no subagent session.
+ */
+export async function abortThreadJob(channelId: string, threadTs: string): Promise<string | undefined> {
   const result = await runCodingSubagent({
     action: "abort",
     channelId,
     threadTs,
   })
 
-  if (result.status === "not_found") {
-    return "No active coding subagent session exists for this thread."
-  }
-
+  if (result.status === "not_found") return undefined
   return "Requested subagent abort for this thread."
 }
 
@@ -125,6 +259,7 @@ export async function runThreadTurn(input: ThreadTurnInput): Promise<ThreadTurnR
     userId: input.userId,
     eventTs: input.eventTs,
     message: input.message,
+    images: input.images,
     systemPrompt: buildOrchestratorSystemPrompt(input.userId),
     subagentSystemPrompt: buildSubagentSystemPrompt(input.userId),
     progressCallback: input.progressCallback,
@@ -133,5 +268,6 @@ export async function runThreadTurn(input: ThreadTurnInput): Promise<ThreadTurnR
   return {
     content: result.content || "Done.",
     generatedFiles: result.generatedFiles,
+    diffSummaries: result.diffSummaries,
   }
 }
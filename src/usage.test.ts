@@ -0,0 +1,34 @@
+import assert from "node:assert"
+import { describe, it } from "node:test"
+import { formatUsageTotals, sumAssistantUsage } from "./usage.js"
+
+describe("sumAssistantUsage", () => {
+  it("ignores non-assistant messages and keeps the last model", () => {
+    const { usage, model } = sumAssistantUsage([
+      { role: "assistant", model: "a", usage: { input: 1, output: 2, cacheRead: 0, cacheWrite: 0, cost: { total: 0.1 } } },
+      { role: "user", usage: { input: 100 } },
+      { role: "assistant", model: "b", usage: { input: 3, output: 4 } },
+    ])
+    assert.deepStrictEqual(usage, { input: 4, output: 6, cacheRead: 0, cacheWrite: 0, cost: 0.1 })
+    assert.strictEqual(model, "b")
+  })
+})
+
+describe("formatUsageTotals", () => {
+  it("formats cost and abbreviated token counts", () => {
+    const text = formatUsageTotals("This thread", {
+      records: 3,
+      input: 1_250_000,
+      output: 4_200,
+      cacheRead: 900,
+      cacheWrite: 0,
+      cost: 1.234,
+    })
+    assert.strictEqual(text, "This thread: $1.23 | 1.3M in | 4.2k out | 900 cache read | 0 cache write | 3 runs")
+  })
+
+  it("says when nothing has been recorded", () => {
+    const text = formatUsageTotals("You", { records: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0 })
+    assert.strictEqual(text, "You: no usage recorded")
+  })
+})
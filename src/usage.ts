@@ -0,0 +1,108 @@
+/**
+ * Token usage and cost accounting.
+ *
+ * Usage is summed from the assistant messages Pi produces in a run (each
+ * carries its own token counts and cost) and recorded per orchestrator turn
+ * and per subagent job in the SQLite store.
+ */
+
+import * as log from "./logger.js"
+import { getSessionStore, type UsageRecord, type UsageTotals } from "./session-store.js"
+
+export interface PiUsage {
+  input: number
+  output: number
+  cacheRead: number
+  cacheWrite: number
+  /** USD, as priced by Pi for the model that was used. */
+  cost: number
+}
+
+interface UsageMessage {
+  role?: string
+  model?: string
+  usage?: {
+    input?: number
+    output?: number
+    cacheRead?: number
+    cacheWrite?: number
+    cost?: { total?: number }
+  }
+}
+
+export function emptyUsage(): PiUsage {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0 }
+}
+
+/**
+ * Sum token usage over the assistant messages in `messages`. The model is
+ * taken from the last assistant message that names one.
+ */
+export function sumAssistantUsage(messages: readonly unknown[]): { usage: PiUsage; model: string | undefined } {
+  const usage = emptyUsage()
+  let model: string | undefined
+  for (const message of messages as UsageMessage[]) {
+    if (message?.role !== "assistant") continue
+    if (message.model) model = message.model
+    usage.input += message.usage?.input ?? 0
+    usage.output += message.usage?.output ?? 0
+    usage.cacheRead += message.usage?.cacheRead ?? 0
+    usage.cacheWrite += message.usage?.cacheWrite ?? 0
+    usage.cost += message.usage?.cost?.total ?? 0
+  }
+  return { usage, model }
+}
+
+/**
+ * Store a usage record. Failures are logged and otherwise ignored so
+ * accounting never breaks a turn.
+ */
+export function recordUsage(record: UsageRecord): void {
+  try {
+    getSessionStore().recordUsage(record)
+  } catch (err) {
+    log.warn("Failed to record token usage", {
+      threadKey: record.threadKey,
+      source: record.source,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  }
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`
+  return String(count)
+}
+
+export function formatUsageTotals(label: string, totals: UsageTotals): string {
+  if (totals.records === 0) return `${label}: no usage recorded`
+  return [
+    `${label}: $${totals.cost.toFixed(2)}`,
+    `${formatTokens(totals.input)} in`,
+    `${formatTokens(totals.output)} out`,
+    `${formatTokens(totals.cacheRead)} cache read`,
+    `${formatTokens(totals.cacheWrite)} cache write`,
+    `${totals.records} runs`,
+  ].join(" | ")
+}
+
+/**
+ * Text for the `/cost` command: totals for the thread and, if known, the user.
+ */
+export function formatUsageReport(threadKey: string, userId?: string): string {
+  try {
+    const store = getSessionStore()
+    const lines = [formatUsageTotals("This thread", store.getUsageTotals({ threadKey }))]
+    if (userId) {
+      lines.push(formatUsageTotals("You (all threads)", store.getUsageTotals({ userId })))
+    }
+    return lines.join("\n")
+  } catch (err) {
+    log.warn("Failed to load token usage", {
+      threadKey,
+      error: err instanceof Error ? err.message : String(err),
+    })
+    return "Usage data is unavailable right now."
+  }
+}
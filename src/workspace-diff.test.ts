@@ -0,0 +1,33 @@
+import assert from "node:assert"
+import { describe, it } from "node:test"
+import { formatDiffSummary, parseDiffStats } from "./workspace-diff.js"
+
+describe("workspace diff", () => {
+  it("parses one shortstat line per changed repository", () => {
+    const stats = parseDiffStats([
+      ".\t 1 file changed, 2 insertions(+)",
+      "api\t 3 files changed, 10 insertions(+), 4 deletions(-)",
+      "web\t",
+      "",
+    ].join("\n"))
+
+    assert.deepStrictEqual(stats, [
+      { repo: ".", summary: "1 file changed, 2 insertions(+)" },
+      { repo: "api", summary: "3 files changed, 10 insertions(+), 4 deletions(-)" },
+    ])
+  })
+
+  it("names the patch and each repository in the summary", () => {
+    assert.strictEqual(
+      formatDiffSummary([
+        { repo: ".", summary: "1 file changed, 2 insertions(+)" },
+        { repo: "api", summary: "3 files changed, 10 insertions(+), 4 deletions(-)" },
+      ], "job_1.patch"),
+      [
+        "**Changes** (full diff in `job_1.patch`):",
+        "• `workspace`: 1 file changed, 2 insertions(+)",
+        "• `api`: 3 files changed, 10 insertions(+), 4 deletions(-)",
+      ].join("\n")
+    )
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Per-job diffs of the workspace's git repositories.
+ *
+ * Before a job, the full working state of every repository under the
+ * workspace (tracked and untracked files, minus ignored ones) is written as a
+ * git tree using a throwaway index, and the tree ids are saved next to the
+ * job's files. After the job the same is done again and the two trees are
+ * diffed, so the patch covers uncommitted edits, new files and commits alike.
+ * The patch is written next to the job's files and uploaded alongside its
+ * artifacts.
+ */
+
+import type { SandboxClient } from "./sandbox.js"
+
+export interface RepoDiffStat {
+  /** Repository path relative to the workspace ("." for the workspace itself). */
+  repo: string
+  /** `git diff --shortstat` line, e.g. "2 files changed, 5 insertions(+)". */
+  summary: string
+}
+
+const DIFF_TIMEOUT_MS = 120000
+
+// Shared helpers: find repositories up to three levels down and write a tree
+// of a repository's working state without touching its real index.
+const REPO_HELPERS = [
+  "list_repos() { find \"$work_dir\" -maxdepth 3 -name .git -prune -printf '%h\\n' | sort; }",
+  'rel_path() { if [ "$1" = "$work_dir" ]; then echo .; else echo "${1#"$work_dir"/}"; fi; }',
+  "repo_tree() {",
+  '  local index status',
+  "  index=$(mktemp)",
+  '  cp "$(git -C "$1" rev-parse --absolute-git-dir)/index" "$index" 2>/dev/null || rm -f "$index"',
+  '  GIT_INDEX_FILE="$index" git -C "$1" add -A >/dev/null 2>&1 && GIT_INDEX_FILE="$index" git -C "$1" write-tree',
+  "  status=$?",
+  '  rm -f "$index"',
+  '  return "$status"',
+  "}",
+]
+
+const DIFF_BASELINE_SCRIPT = [
+  'work_dir="$0"; baseline="$1"',
+  ...REPO_HELPERS,
+  ': > "$baseline.tmp"',
+  "list_repos | while read -r repo; do",
+  '  tree=$(repo_tree "$repo") || continue',
+  '  printf \'%s\\t%s\\n\' "$(rel_path "$repo")" "$tree" >> "$baseline.tmp"',
+  "done",
+  'mv "$baseline.tmp" "$baseline"',
+].join("\n")
+
+// Repositories missing from the baseline were created during the job and are
+// diffed against origin/HEAD when they have one. Prints one
+// "<repo>\t<shortstat>" line per changed repository.
+const DIFF_SCRIPT = [
+  'work_dir="$0"; baseline="$1"; patch="$2"',
+  '[ -f "$baseline" ] || exit 0',
+  ...REPO_HELPERS,
+  ': > "$patch.tmp"',
+  "list_repos | while read -r repo; do",
+  '  rel=$(rel_path "$repo")',
+  '  now=$(repo_tree "$repo") || continue',
+  "  base=$(awk -F '\\t' -v r=\"$rel\" '$1 == r { print $2 }' \"$baseline\")",
+  '  [ -n "$base" ] || base=$(git -C "$repo" rev-parse -q --verify "origin/HEAD^{tree}") || continue',
+  '  [ "$base" = "$now" ] && continue',
+  '  if [ "$rel" = . ]; then prefix=""; else prefix="$rel/"; fi',
+  '  git -C "$repo" diff --no-color --no-ext-diff --src-prefix="a/$prefix" --dst-prefix="b/$prefix" "$base" "$now" >> "$patch.tmp"',
+  '  printf \'%s\\t%s\\n\' "$rel" "$(git -C "$repo" diff --shortstat "$base" "$now")"',
+  "done",
+  'if [ -s "$patch.tmp" ]; then mv "$patch.tmp" "$patch"; else rm -f "$patch.tmp"; fi',
+].join("\n")
+
+export function parseDiffStats(stdout: string): RepoDiffStat[] {
+  const stats: RepoDiffStat[] = []
+  for (const line of stdout.split("\n")) {
+    const [repo, summary] = line.split("\t")
+    if (!repo || !summary?.trim()) continue
+    stats.push({ repo, summary: summary.trim() })
+  }
+  return stats
+}
+
+/**
+ * Short stat block (Markdown) for the Slack reply, naming the uploaded patch.
+ */
+export function formatDiffSummary(stats: RepoDiffStat[], patchFilename: string): string {
+  const lines = stats.map(({ repo, summary }) => `• \`${repo === "." ? "workspace" : repo}\`: ${summary}`)
+  return [`**Changes** (full diff in \`${patchFilename}\`):`, ...lines].join("\n")
+}
+
+/**
+ * Record the working-state tree of each workspace repository before a job.
+ */
+export async function recordDiffBaseline(
+  client: SandboxClient,
+  sandboxName: string,
+  workDir: string,
+  baselinePath: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const result = await client.exec(sandboxName, ["bash", "-c", DIFF_BASELINE_SCRIPT, workDir, baselinePath], {
+    timeoutMs: DIFF_TIMEOUT_MS,
+    signal,
+  })
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to record diff baseline: ${result.stderr.trim() || result.stdout.trim()}`)
+  }
+}
+
+/**
+ * Write the diff since the baseline to `patchPath` and return per-repository
+ * stats. Nothing is written, and no stats returned, when no repository
+ * changed or no baseline was recorded.
+ */
+export async function writeWorkspaceDiff(
+  client: SandboxClient,
+  sandboxName: string,
+  workDir: string,
+  baselinePath: string,
+  patchPath: string
+): Promise<RepoDiffStat[]> {
+  const result = await client.exec(sandboxName, ["bash", "-c", DIFF_SCRIPT, workDir, baselinePath, patchPath], {
+    timeoutMs: DIFF_TIMEOUT_MS,
+  })
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to diff workspace: ${result.stderr.trim() || result.stdout.trim()}`)
+  }
+  return parseDiffStats(result.stdout)
+}
@@ -0,0 +1,104 @@
+import assert from "node:assert"
+import { mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { describe, it } from "node:test"
+import { LocalSandboxClient } from "./local-sandbox.js"
+import type { PersistedSubagentJob } from "./session-store.js"
+import {
+  createWorkspaceSnapshot,
+  formatSnapshotList,
+  makeSnapshotId,
+  parseSnapshotListing,
+  restoreWorkspaceSnapshot,
+} from "./workspace-snapshots.js"
+
+describe("workspace snapshots", () => {
+  it("derives snapshot ids from job ids", () => {
+    assert.strictEqual(makeSnapshotId("job_1a2b3c4d"), "snap_1a2b3c4d")
+  })
+
+  it("parses find output newest first and skips temp files", () => {
+    const snapshots = parseSnapshotListing([
+      "snap_old.tar.gz 2048 1700000000.5",
+      "snap_new.tar.gz 4096 1700000100.25",
+      "snap_partial.tar.gz.tmp 10 1700000200.0",
+      "",
+    ].join("\n"))
+
+    assert.deepStrictEqual(snapshots, [
+      { id: "snap_new", sizeBytes: 4096, createdAt: 1700000100250 },
+      { id: "snap_old", sizeBytes: 2048, createdAt: 1700000000500 },
+    ])
+  })
+
+  it("labels snapshots with the job they were taken before", () => {
+    const job: PersistedSubagentJob = {
+      jobId: "job_new",
+      subagentSessionId: "sa_1",
+      threadKey: "C1:1",
+      channelId: "C1",
+      threadTs: "1",
+      instruction: "Upgrade the dependencies\nand run the tests",
+      status: "completed",
+      artifacts: [],
+      snapshotId: "snap_new",
+      startedAt: 0,
+    }
+    const text = formatSnapshotList([
+      { id: "snap_new", sizeBytes: 3 * 1024 * 1024, createdAt: 60000 },
+      { id: "snap_old", sizeBytes: 100, createdAt: 0 },
+    ], [job], 120000)
+
+    assert.strictEqual(text, [
+      "2 workspace snapshots (newest first, `/undo` restores the first):",
+      "• `snap_new` 1m 0s ago, 3.0 MB, before `job_new`: Upgrade the dependencies",
+      "• `snap_old` 2m 0s ago, 1 KB, before an earlier job",
+    ].join("\n"))
+    assert.strictEqual(formatSnapshotList([], [], 0), "No workspace snapshots are kept for this thread.")
+  })
+
+  it("archives what git doesn't ignore and restores it over the workspace", async () => {
+    const root = mkdtempSync(join(tmpdir(), "janebot-snapshots-"))
+    try {
+      const client = new LocalSandboxClient({ root, isolation: "none" })
+      const workDir = `${client.homeDir}/workspace`
+      const snapshotsDir = `${client.homeDir}/snapshots`
+      await client.create("jane-a")
+      await client.exec("jane-a", ["mkdir", "-p", workDir])
+      const run = async (script: string) => {
+        const result = await client.exec("jane-a", ["bash", "-c", `set -e; ${script}`], { dir: workDir })
+        assert.strictEqual(result.exitCode, 0, result.stderr)
+        return result.stdout.trim()
+      }
+      const git = "git -c user.name=jane -c user.email=jane@example.com"
+
+      await run([
+        "mkdir -p repo/node_modules/dep && cd repo && git init -q",
+        "echo node_modules > .gitignore && echo one > app.txt",
+        `git add . && ${git} commit -qm one`,
+        "echo dep > node_modules/dep/index.js && echo draft > notes.txt && cd .. && echo loose > loose.txt",
+      ].join("\n"))
+      await createWorkspaceSnapshot(client, "jane-a", workDir, snapshotsDir, "snap_1")
+      const archived = await run(`tar -tzf ${snapshotsDir}/snap_1.tar.gz`)
+      assert.ok(archived.includes("./repo/app.txt") && archived.includes("./repo/notes.txt"))
+      assert.ok(archived.includes("./repo/.git/HEAD") && archived.includes("./loose.txt"))
+      assert.ok(!archived.includes("node_modules") && !archived.includes(".git/objects"))
+
+      await run([
+        `cd repo && echo two > app.txt && ${git} commit -qam two && rm notes.txt && echo new > new.txt`,
+        "echo built > node_modules/dep/built.js && cd .. && mkdir clone && git -C clone init -q",
+      ].join("\n"))
+      assert.strictEqual(await restoreWorkspaceSnapshot(client, "jane-a", workDir, snapshotsDir, "snap_1"), true)
+
+      assert.strictEqual(await run("cat repo/app.txt repo/notes.txt loose.txt"), "one\ndraft\nloose")
+      assert.strictEqual(await run("git -C repo log --format=%s"), "one")
+      assert.strictEqual(await run("git -C repo status --porcelain"), "?? notes.txt")
+      assert.strictEqual(await run("ls repo/node_modules/dep"), "built.js\nindex.js")
+      assert.strictEqual(await run("ls -A repo; [ ! -e clone ] && echo gone"), ".git\n.gitignore\napp.txt\nnode_modules\nnotes.txt\ngone")
+      assert.strictEqual(await restoreWorkspaceSnapshot(client, "jane-a", workDir, snapshotsDir, "snap_2"), false)
+    } finally {
+      rmSync(root, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,210 @@
+/**
+ * Workspace snapshots.
+ *
+ * Before each subagent job the sandbox's workspace is archived to
+ * `~/snapshots/<snapshot_id>.tar.gz`, and the snapshot id is recorded on the
+ * job. `/undo` extracts the newest one over the workspace; `/snapshots` lists
+ * what is kept. Tarballs rather than a shadow git repo, because workspaces are
+ * mostly git clones and git would only record nested repos as gitlinks.
+ *
+ * Inside git repositories only files git doesn't ignore are archived, plus
+ * the `.git` directory without its object store, so dependencies, build
+ * output and clone history don't bloat every snapshot. Objects are only ever
+ * added, so the refs a snapshot restores still resolve.
+ */
+
+import { formatElapsed } from "./pi-progress.js"
+import type { SandboxClient } from "./sandbox.js"
+import type { PersistedSubagentJob } from "./session-store.js"
+
+export interface WorkspaceSnapshot {
+  id: string
+  sizeBytes: number
+  createdAt: number
+}
+
+// Snapshots kept per sandbox; older ones are pruned when a new one is taken.
+export const MAX_WORKSPACE_SNAPSHOTS = 10
+
+const SNAPSHOT_TIMEOUT_MS = 300000
+const SNAPSHOT_LIST_TIMEOUT_MS = 30000
+
+// Shared helpers, run from the workspace: find repositories up to three levels
+// down, as the job diff does, and list what a snapshot holds as NUL-separated
+// paths: files outside repositories, each repository's tracked and untracked
+// files that aren't ignored, and its .git directory minus objects.
+const SNAPSHOT_HELPERS = [
+  "list_repos() { find . -maxdepth 3 -name .git -prune -printf '%h\\0' | sort -z; }",
+  "list_snapshot_files() {",
+  "  local repo outside=1",
+  "  local -a prune=(-false)",
+  "  while IFS= read -r -d '' repo; do",
+  '    if [ "$repo" = . ]; then outside=0; else prune+=(-o -path "$repo"); fi',
+  "    git -C \"$repo\" ls-files -coz --exclude-standard | while IFS= read -r -d '' file; do printf '%s/%s\\0' \"$repo\" \"$file\"; done",
+  '    find "$repo/.git" -path "$repo/.git/objects" -prune -o ! -type d -print0',
+  "  done < <(list_repos)",
+  '  if [ "$outside" = 1 ]; then find . \\( "${prune[@]}" \\) -prune -o ! -type d -print0; fi',
+  "}",
+]
+
+// Writes to a temp file first so an interrupted snapshot never looks complete.
+// Tracked files deleted from the working tree are listed but can't be read,
+// which tar is told to skip.
+const SNAPSHOT_CREATE_SCRIPT = [
+  "set -euo pipefail",
+  'work_dir="$0"; snapshots_dir="$1"; id="$2"; keep="$3"',
+  ...SNAPSHOT_HELPERS,
+  'mkdir -p "$snapshots_dir"',
+  'cd "$work_dir"',
+  'list=$(mktemp); trap \'rm -f "$list"\' EXIT',
+  'list_snapshot_files > "$list"',
+  'tar -czf "$snapshots_dir/$id.tar.gz.tmp" --null --no-recursion --ignore-failed-read -T "$list"',
+  'mv "$snapshots_dir/$id.tar.gz.tmp" "$snapshots_dir/$id.tar.gz"',
+  'ls -1t "$snapshots_dir"/*.tar.gz | tail -n +"$((keep + 1))" | xargs -r rm -f',
+].join("\n")
+
+// Exit code 3 means the snapshot doesn't exist; the workspace is untouched then.
+// Repositories the snapshot has no record of were created after it and are
+// removed whole. Otherwise what the snapshot would hold is cleared before it is
+// extracted, so ignored files and git objects are left in place.
+const SNAPSHOT_RESTORE_SCRIPT = [
+  "set -euo pipefail",
+  'work_dir="$0"; snapshot="$1"',
+  '[ -f "$snapshot" ] || exit 3',
+  ...SNAPSHOT_HELPERS,
+  'cd "$work_dir"',
+  'saved=$(mktemp); trap \'rm -f "$saved"\' EXIT',
+  'tar -tzf "$snapshot" > "$saved"',
+  "list_repos | while IFS= read -r -d '' repo; do",
+  '  [ "$repo" = . ] || grep -Fxq -e "$repo/.git/HEAD" -e "$repo/.git" "$saved" || rm -rf -- "$repo"',
+  "done",
+  "list_snapshot_files | while IFS= read -r -d '' path; do",
+  '  if [ -L "$path" ] || [ ! -d "$path" ]; then rm -f -- "$path"; fi',
+  "done",
+  'tar -xzf "$snapshot"',
+].join("\n")
+
+const SNAPSHOT_LIST_SCRIPT = [
+  'snapshots_dir="$0"',
+  '[ -d "$snapshots_dir" ] || exit 0',
+  "find \"$snapshots_dir\" -maxdepth 1 -name '*.tar.gz' -printf '%f %s %T@\\n'",
+].join("\n")
+
+export function makeSnapshotId(jobId: string): string {
+  return `snap_${jobId.replace(/^job_/, "")}`
+}
+
+function snapshotPath(snapshotsDir: string, snapshotId: string): string {
+  return `${snapshotsDir}/${snapshotId}.tar.gz`
+}
+
+/**
+ * Parse `<file> <size> <mtime>` lines into snapshots, newest first.
+ */
+export function parseSnapshotListing(stdout: string): WorkspaceSnapshot[] {
+  const snapshots: WorkspaceSnapshot[] = []
+  for (const line of stdout.split("\n")) {
+    const match = /^(\S+)\.tar\.gz (\d+) ([\d.]+)$/.exec(line.trim())
+    if (!match) continue
+    snapshots.push({
+      id: match[1] ?? "",
+      sizeBytes: parseInt(match[2] ?? "0", 10),
+      createdAt: Math.round(parseFloat(match[3] ?? "0") * 1000),
+    })
+  }
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export async function createWorkspaceSnapshot(
+  client: SandboxClient,
+  sandboxName: string,
+  workDir: string,
+  snapshotsDir: string,
+  snapshotId: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const result = await client.exec(sandboxName, [
+    "bash", "-c", SNAPSHOT_CREATE_SCRIPT, workDir, snapshotsDir, snapshotId, String(MAX_WORKSPACE_SNAPSHOTS),
+  ], {
+    timeoutMs: SNAPSHOT_TIMEOUT_MS,
+    signal,
+  })
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to snapshot workspace: ${result.stderr.trim() || result.stdout.trim()}`)
+  }
+}
+
+/**
+ * Replace the workspace with a snapshot's contents. Returns false if the
+ * snapshot no longer exists.
+ */
+export async function restoreWorkspaceSnapshot(
+  client: SandboxClient,
+  sandboxName: string,
+  workDir: string,
+  snapshotsDir: string,
+  snapshotId: string
+): Promise<boolean> {
+  const result = await client.exec(sandboxName, [
+    "bash", "-c", SNAPSHOT_RESTORE_SCRIPT, workDir, snapshotPath(snapshotsDir, snapshotId),
+  ], {
+    timeoutMs: SNAPSHOT_TIMEOUT_MS,
+  })
+  if (result.exitCode === 3) return false
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to restore snapshot ${snapshotId}: ${result.stderr.trim() || result.stdout.trim()}`)
+  }
+  return true
+}
+
+export async function listWorkspaceSnapshots(
+  client: SandboxClient,
+  sandboxName: string,
+  snapshotsDir: string
+): Promise<WorkspaceSnapshot[]> {
+  const result = await client.exec(sandboxName, ["bash", "-c", SNAPSHOT_LIST_SCRIPT, snapshotsDir], {
+    timeoutMs: SNAPSHOT_LIST_TIMEOUT_MS,
+  })
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to list snapshots: ${result.stderr.trim() || result.stdout.trim()}`)
+  }
+  return parseSnapshotListing(result.stdout)
+}
+
+export async function deleteWorkspaceSnapshot(
+  client: SandboxClient,
+  sandboxName: string,
+  snapshotsDir: string,
+  snapshotId: string
+): Promise<void> {
+  await client.exec(sandboxName, ["rm", "-f", snapshotPath(snapshotsDir, snapshotId)], {
+    timeoutMs: SNAPSHOT_LIST_TIMEOUT_MS,
+  })
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`
+}
+
+/**
+ * Text for the `/snapshots` command. `jobs` supplies the instruction each
+ * snapshot was taken before, where the job is still in history.
+ */
+export function formatSnapshotList(
+  snapshots: WorkspaceSnapshot[],
+  jobs: PersistedSubagentJob[],
+  now: number
+): string {
+  if (snapshots.length === 0) return "No workspace snapshots are kept for this thread."
+
+  const jobsBySnapshot = new Map(jobs.flatMap((job) => job.snapshotId ? [[job.snapshotId, job] as const] : []))
+  const lines = [`${snapshots.length} workspace snapshot${snapshots.length === 1 ? "" : "s"} (newest first, \`/undo\` restores the first):`]
+  for (const snapshot of snapshots) {
+    const job = jobsBySnapshot.get(snapshot.id)
+    const instruction = job?.instruction.trim().split("\n")[0]
+    const label = job && instruction ? `before \`${job.jobId}\`: ${instruction.slice(0, 80)}` : "before an earlier job"
+    lines.push(`• \`${snapshot.id}\` ${formatElapsed(now - snapshot.createdAt)} ago, ${formatSize(snapshot.sizeBytes)}, ${label}`)
+  }
+  return lines.join("\n")
+}